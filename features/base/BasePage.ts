@@ -1,17 +1,25 @@
-import { Page, Locator } from '@playwright/test';
+import { Page, Locator, expect } from '@playwright/test';
 import { TestLogger } from '../utils/TestLogger';
 import { WaitHelper } from '../utils/WaitHelper';
-import * as fs from 'fs';
-import * as path from 'path';
+import { ArtifactStore } from '../utils/ArtifactStore';
+
+export interface VisualMatchOptions {
+  /** Compare one element instead of the viewport */
+  target?: Locator;
+  fullPage?: boolean;
+  /** Extra regions to mask on top of the page's dynamicRegions() */
+  mask?: Locator[];
+  /** Override the configured tolerance (expect.toHaveScreenshot in playwright.config.ts) */
+  maxDiffPixels?: number;
+  maxDiffPixelRatio?: number;
+}
 
 /**
  * Base page utilities with resilient actions and shared logging.
  */
 export abstract class BasePage {
   private static readonly DEFAULT_RETRIES = 3;
-  private static readonly SCREENSHOT_DIR = 'screenshots';
   private static readonly MAX_FILENAME_LENGTH = 200;
-  private static screenshotDirCreated = false;
 
   readonly page: Page;
   protected logger: TestLogger;
@@ -19,15 +27,6 @@ export abstract class BasePage {
   protected constructor(page: Page) {
     this.page = page;
     this.logger = new TestLogger(this.constructor.name);
-    this.ensureScreenshotDirectory();
-  }
-
-  private ensureScreenshotDirectory(): void {
-    // Use static flag for efficiency - mkdirSync with recursive:true is idempotent
-    if (!BasePage.screenshotDirCreated) {
-      fs.mkdirSync(BasePage.SCREENSHOT_DIR, { recursive: true });
-      BasePage.screenshotDirCreated = true;
-    }
   }
 
   /**
@@ -82,26 +81,17 @@ export abstract class BasePage {
   // =========================================================================
   
   /**
-   * Click with retry logic for timing-sensitive interactions.
+   * Click with retry logic (exponential backoff via WaitHelper.retryOperation) for timing-sensitive interactions.
    */
   async safeClick(locator: Locator, options?: { retries?: number, force?: boolean }): Promise<void> {
     const retries = options?.retries || BasePage.DEFAULT_RETRIES;
     const force = options?.force || false;
-    
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        await locator.click({ force, timeout: WaitHelper.DEFAULT_TIMEOUT_MS });
-        this.logger.debug(`Click successful on attempt ${attempt}`);
-        return;
-      } catch (error) {
-        if (attempt === retries) {
-          this.logger.error(`Click failed after ${retries} attempts`);
-          throw error;
-        }
-        this.logger.warn(`Click attempt ${attempt} failed, retrying...`);
-        await this.page.waitForTimeout(WaitHelper.RETRY_DELAY_MS);
-      }
-    }
+
+    await WaitHelper.retryOperation(
+      async () => await locator.click({ force, timeout: WaitHelper.DEFAULT_TIMEOUT_MS }),
+      retries,
+      { description: `Click ${locator}` }
+    );
   }
 
   /**
@@ -115,23 +105,62 @@ export abstract class BasePage {
   // =========================================================================
   // SCREENSHOTS WITH PATH MANAGEMENT
   // =========================================================================
-  
+
+  /**
+   * Screenshots go to the running test's output directory (<outputDir>/screenshots/) and are attached to the report.
+   */
   async screenshot(name: string, options?: { fullPage?: boolean }): Promise<Buffer> {
     const fullPage = options?.fullPage || false;
     const safeName = this.sanitizeFilename(name);
+    const artifacts = ArtifactStore.for();
+    const filePath = artifacts.path('screenshots', `${safeName}.png`);
     this.logger.info(`Taking screenshot: ${safeName}`);
-    return await this.page.screenshot({ 
-      path: path.join(BasePage.SCREENSHOT_DIR, `${safeName}.png`), 
-      fullPage 
-    });
+    const buffer = await this.page.screenshot({ path: filePath, fullPage });
+    await artifacts.attach('screenshots', filePath, 'image/png', safeName);
+    return buffer;
   }
 
   async screenshotElement(locator: Locator, name: string): Promise<Buffer> {
     const safeName = this.sanitizeFilename(name);
+    const artifacts = ArtifactStore.for();
+    const filePath = artifacts.path('screenshots', `${safeName}.png`);
     this.logger.info(`Taking element screenshot: ${safeName}`);
-    return await locator.screenshot({ 
-      path: path.join(BasePage.SCREENSHOT_DIR, `${safeName}.png`) 
-    });
+    const buffer = await locator.screenshot({ path: filePath });
+    await artifacts.attach('screenshots', filePath, 'image/png', safeName);
+    return buffer;
+  }
+
+  // =========================================================================
+  // VISUAL REGRESSION
+  // =========================================================================
+
+  /**
+   * Regions whose pixels change between runs (carousels, product images); masked in every comparison.
+   */
+  protected dynamicRegions(): Locator[] {
+    return [];
+  }
+
+  /**
+   * Compare the page (or options.target) with its baseline. Baselines are stored per project and
+   * viewport (features/visual-baselines/<project>/<width>x<height>/<name>.png); on mismatch Playwright
+   * attaches the expected, actual and diff images. UPDATE_BASELINES=true rewrites them.
+   */
+  async expectVisualMatch(name: string, options: VisualMatchOptions = {}): Promise<void> {
+    const viewport = this.page.viewportSize();
+    const snapshot = [viewport ? `${viewport.width}x${viewport.height}` : 'default-viewport', `${this.sanitizeFilename(name)}.png`];
+    const settings = {
+      mask: [...this.dynamicRegions(), ...(options.mask ?? [])],
+      ...(options.maxDiffPixels !== undefined ? { maxDiffPixels: options.maxDiffPixels } : {}),
+      ...(options.maxDiffPixelRatio !== undefined ? { maxDiffPixelRatio: options.maxDiffPixelRatio } : {}),
+    };
+    this.logger.info(`Visual comparison: ${snapshot.join('/')}`);
+
+    if (options.target) {
+      await expect(options.target).toHaveScreenshot(snapshot, settings);
+    } else {
+      await expect(this.page).toHaveScreenshot(snapshot, { ...settings, fullPage: options.fullPage ?? false });
+    }
   }
 
   // =========================================================================
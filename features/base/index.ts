@@ -1 +1,2 @@
 export { BasePage } from './BasePage';
+export type { VisualMatchOptions } from './BasePage';
@@ -4,8 +4,22 @@
 export const ApiConstants = {
   paths: {
     entries: '/entries',
+    view: '/view',
+    byCategory: '/bycat',
+    pagination: '/pagination',
+    signup: '/signup',
+    login: '/login',
+    addToCart: '/addtocart',
+    viewCart: '/viewcart',
+    deleteItem: '/deleteitem',
+    deleteCart: '/deletecart',
     invalidEndpoint: '/invalid-endpoint',
   },
+  categories: {
+    phones: 'phone',
+    laptops: 'notebook',
+    monitors: 'monitor',
+  },
   status: {
     ok: 200,
     validErrorStatuses: [400, 404, 405] as const,
@@ -13,9 +27,26 @@ export const ApiConstants = {
   limits: {
     defaultResponseTimeMs: 2000,
     maxResponseBytes: 1_000_000,
+    requestTimeoutMs: 15000,
+    // Per-endpoint SLA budgets (ms) asserted against sampled p95/p99
+    latencyBudgets: {
+      entries: { p95Ms: 1500, p99Ms: 2000 },
+      view: { p95Ms: 1500, p99Ms: 2000 },
+      bycat: { p95Ms: 1500, p99Ms: 2000 },
+      pagination: { p95Ms: 1500, p99Ms: 2000 },
+      viewcart: { p95Ms: 2000, p99Ms: 2500 },
+    },
   },
   headers: {
     jsonContentType: 'application/json',
+    defaults: {
+      'Accept': 'application/json, text/plain, */*',
+    },
+  },
+  auth: {
+    tokenPrefix: 'Auth_token: ',
+    /** Cookie the storefront keeps the token in (logged-in state and cart owner) */
+    tokenCookie: 'tokenp_',
   },
 } as const;
 
@@ -0,0 +1,203 @@
+/**
+ * ApiSchema - Declarative runtime schemas for API response validation
+ *
+ * Schemas are typed against the interfaces in ApiTypes, so a validated value is
+ * narrowed to the real TypeScript type and the compiler flags schema/interface drift.
+ */
+
+export interface SchemaIssue {
+  /** JSON path of the offending value, e.g. `$.Items[3].price` */
+  path: string;
+  /** Human-readable expected type, e.g. `number` or `string (non-empty)` */
+  expected: string;
+  /** Actual value as received (serialised for reporting) */
+  actual: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  /** Validate a value, pushing issues for every mismatch. Returns true when valid. */
+  check(value: unknown, path: string, issues: SchemaIssue[]): boolean;
+  /** Phantom field carrying the validated type (never set at runtime). */
+  readonly __type?: T;
+}
+
+export type SchemaShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export interface SchemaResult<T> {
+  valid: boolean;
+  value: T | undefined;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Thrown when a response does not match its declared schema.
+ */
+export class SchemaValidationError extends Error {
+  constructor(readonly label: string, readonly issues: SchemaIssue[]) {
+    super(`${label} failed schema validation:\n${formatSchemaIssues(issues)}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const MAX_ACTUAL_LENGTH = 120;
+
+function describeActual(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  let serialised: string;
+  try {
+    serialised = JSON.stringify(value) ?? String(value);
+  } catch {
+    serialised = String(value);
+  }
+  if (serialised.length > MAX_ACTUAL_LENGTH) {
+    serialised = `${serialised.substring(0, MAX_ACTUAL_LENGTH)}...`;
+  }
+  const kind = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  return `${kind} ${serialised}`;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (test(value)) return true;
+      issues.push({ path, expected, actual: describeActual(value) });
+      return false;
+    },
+  };
+}
+
+/**
+ * Schema factories.
+ */
+export const s = {
+  string(options: { minLength?: number; pattern?: RegExp } = {}): Schema<string> {
+    const constraints: string[] = [];
+    if (options.minLength !== undefined) constraints.push(`length >= ${options.minLength}`);
+    if (options.pattern) constraints.push(`matching ${options.pattern}`);
+    const expected = constraints.length > 0 ? `string (${constraints.join(', ')})` : 'string';
+    return primitive<string>(expected, (value) =>
+      typeof value === 'string'
+      && value.length >= (options.minLength ?? 0)
+      && (!options.pattern || options.pattern.test(value))
+    );
+  },
+
+  number(options: { min?: number; integer?: boolean } = {}): Schema<number> {
+    const constraints: string[] = [];
+    if (options.integer) constraints.push('integer');
+    if (options.min !== undefined) constraints.push(`>= ${options.min}`);
+    const expected = constraints.length > 0 ? `number (${constraints.join(', ')})` : 'number';
+    return primitive<number>(expected, (value) =>
+      typeof value === 'number'
+      && Number.isFinite(value)
+      && (!options.integer || Number.isInteger(value))
+      && value >= (options.min ?? Number.NEGATIVE_INFINITY)
+    );
+  },
+
+  boolean(): Schema<boolean> {
+    return primitive<boolean>('boolean', (value) => typeof value === 'boolean');
+  },
+
+  literal<T extends string | number | boolean>(literal: T): Schema<T> {
+    return primitive<T>(JSON.stringify(literal), (value) => value === literal);
+  },
+
+  array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+    const expected = options.minLength !== undefined
+      ? `array<${item.expected}> (length >= ${options.minLength})`
+      : `array<${item.expected}>`;
+    return {
+      expected,
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push({ path, expected, actual: describeActual(value) });
+          return false;
+        }
+        let valid = true;
+        if (value.length < (options.minLength ?? 0)) {
+          issues.push({ path, expected, actual: `array of length ${value.length}` });
+          valid = false;
+        }
+        value.forEach((entry, index) => {
+          valid = item.check(entry, `${path}[${index}]`, issues) && valid;
+        });
+        return valid;
+      },
+    };
+  },
+
+  object<T>(shape: SchemaShape<T>, options: { name?: string; strict?: boolean } = {}): Schema<T> {
+    const expected = options.name ?? 'object';
+    return {
+      expected,
+      check(value, path, issues) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          issues.push({ path, expected, actual: describeActual(value) });
+          return false;
+        }
+        const record = value as Record<string, unknown>;
+        let valid = true;
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+          const fieldSchema = shape[key] as Schema<unknown>;
+          valid = fieldSchema.check(record[key], `${path}.${key}`, issues) && valid;
+        }
+        if (options.strict) {
+          for (const key of Object.keys(record)) {
+            if (!(key in shape)) {
+              issues.push({ path: `${path}.${key}`, expected: 'no additional property', actual: describeActual(record[key]) });
+              valid = false;
+            }
+          }
+        }
+        return valid;
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      expected: `${inner.expected} | undefined`,
+      check(value, path, issues) {
+        return value === undefined || inner.check(value, path, issues);
+      },
+    };
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      expected: `${inner.expected} | null`,
+      check(value, path, issues) {
+        return value === null || inner.check(value, path, issues);
+      },
+    };
+  },
+};
+
+/**
+ * Validate a value against a schema without throwing.
+ */
+export function validateSchema<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  const valid = schema.check(value, '$', issues);
+  return { valid, value: valid ? (value as T) : undefined, issues };
+}
+
+/**
+ * Validate a value and return it narrowed, or throw SchemaValidationError.
+ */
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown, label: string = schema.expected): T {
+  const result = validateSchema(schema, value);
+  if (!result.valid) {
+    throw new SchemaValidationError(label, result.issues);
+  }
+  return value as T;
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map((issue) => `  ${issue.path}: expected ${issue.expected}, got ${issue.actual}`)
+    .join('\n');
+}
@@ -0,0 +1,70 @@
+import { APIResponse } from '@playwright/test';
+
+/**
+ * ApiTypes - Response and request shapes for the Demoblaze REST API
+ */
+
+/** Category keys as stored by the API (the UI labels them Phones/Laptops/Monitors). */
+export type ApiCategory = 'phone' | 'notebook' | 'monitor';
+
+export interface Product {
+  id: number;
+  title: string;
+  price: number;
+  cat: string;
+  desc: string;
+  img: string;
+}
+
+/** Single item returned by /view - same record as a catalog entry. */
+export type ProductDetail = Product;
+
+export interface ProductListResponse {
+  Items: Product[];
+  LastEvaluatedKey?: { id: string };
+}
+
+export interface CartItem {
+  id: string;
+  cookie: string;
+  prod_id: number;
+}
+
+export interface CartResponse {
+  Items: CartItem[];
+}
+
+/** Error body used by Demoblaze (returned with HTTP 200 on business failures). */
+export interface ApiErrorBody {
+  errorMessage: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export interface AuthResult {
+  success: boolean;
+  token: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * Identifies whose cart is being read or written.
+ * Guests use the `user` cookie UUID with flag=false; logged-in users use the auth token with flag=true.
+ */
+export interface CartOwner {
+  cookie: string;
+  flag: boolean;
+}
+
+/**
+ * Typed wrapper around an API call: parsed body plus the raw response for header checks.
+ */
+export interface ApiResult<T> {
+  status: number;
+  ok: boolean;
+  data: T;
+  response: APIResponse;
+}
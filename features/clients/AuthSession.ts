@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext } from '@playwright/test';
+import { DemoblazeApiClient } from './DemoblazeApiClient';
+import { ApiConstants } from './ApiConstants';
+import { Credentials, CartOwner } from './ApiTypes';
+import { TestLogger } from '../utils/TestLogger';
+
+/**
+ * AuthSession - API-created login shared by every test in a worker
+ *
+ * The first getUser() call signs up (or only logs in) through the API, turns the token into the
+ * storefront's tokenp_ cookie and writes a storageState file; later calls reuse the same user.
+ */
+
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface AuthenticatedUser {
+  credentials: Credentials;
+  token: string;
+  /** Cart owner for API cart calls made on behalf of this user */
+  cartOwner: CartOwner;
+  storageStatePath: string;
+}
+
+export interface AuthSessionOptions {
+  credentials: Credentials;
+  /** Sign the user up first (false for a pre-existing account) */
+  register: boolean;
+  /** Storefront URL the token cookie is scoped to */
+  storefrontUrl: string;
+  storageStatePath: string;
+}
+
+export class AuthSession {
+  private user: Promise<AuthenticatedUser> | null = null;
+  private logger = new TestLogger('AuthSession');
+
+  constructor(private client: DemoblazeApiClient, private options: AuthSessionOptions) {}
+
+  /**
+   * Authenticated user for this worker, created on first use
+   * @throws Error when signup or login is rejected by the API
+   */
+  async getUser(): Promise<AuthenticatedUser> {
+    this.user ??= this.authenticate();
+    return await this.user;
+  }
+
+  /**
+   * Browser storage state carrying the auth token cookie for the storefront origin
+   */
+  static storageStateFor(token: string, storefrontUrl: string): StorageState {
+    const { hostname } = new URL(storefrontUrl);
+    return {
+      cookies: [{
+        name: ApiConstants.auth.tokenCookie,
+        value: token,
+        domain: hostname,
+        path: '/',
+        expires: -1,
+        httpOnly: false,
+        secure: false,
+        sameSite: 'Lax',
+      }],
+      origins: [],
+    };
+  }
+
+  private async authenticate(): Promise<AuthenticatedUser> {
+    const { credentials, register, storefrontUrl, storageStatePath } = this.options;
+
+    if (register) {
+      const signup = await this.client.signup(credentials);
+      if (!signup.data.success) {
+        throw new Error(`API signup failed for ${credentials.username}: ${signup.data.errorMessage ?? `HTTP ${signup.status}`}`);
+      }
+    }
+
+    const login = await this.client.login(credentials);
+    if (!login.data.success || !login.data.token) {
+      throw new Error(`API login failed for ${credentials.username}: ${login.data.errorMessage ?? `HTTP ${login.status}`}`);
+    }
+    const token = login.data.token;
+
+    fs.mkdirSync(path.dirname(storageStatePath), { recursive: true });
+    fs.writeFileSync(storageStatePath, JSON.stringify(AuthSession.storageStateFor(token, storefrontUrl), null, 2));
+    this.logger.info(`Authenticated ${credentials.username} via API (storageState: ${storageStatePath})`);
+
+    return { credentials, token, cartOwner: { cookie: token, flag: true }, storageStatePath };
+  }
+}
+
+export default AuthSession;
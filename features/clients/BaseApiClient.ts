@@ -1,30 +1,180 @@
-import { Page, APIResponse, expect } from '@playwright/test';
+import { APIRequestContext, APIResponse, BrowserContext, request, expect } from '@playwright/test';
 import { ApiConstants } from './ApiConstants';
+import { ApiResult, ApiErrorBody } from './ApiTypes';
+import { Schema, parseWithSchema, validateSchema, formatSchemaIssues } from './ApiSchema';
+import { LatencyReport, LatencySampleOptions, LatencySampler } from './LatencySampler';
+import { HarStore } from '../utils/HarStore';
+import { performance } from 'perf_hooks';
+
+export interface ApiContextOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  /** Path to, or contents of, a storageState to seed the cookie jar with */
+  storageState?: string | Awaited<ReturnType<APIRequestContext['storageState']>>;
+}
 
 /**
  * Shared API client utilities for HTTP operations and assertions.
+ *
+ * Runs on a standalone APIRequestContext (no browser). The context owns the cookie jar,
+ * so cookies set by the API persist across calls and can be pushed into a BrowserContext
+ * with shareCookiesWith() for hybrid tests.
+ * All HTTP goes through fetch()/post(), so an attached HarStore sees (or answers) every call.
  */
 export class BaseApiClient {
-  constructor(public baseUrl: string) {}
+  private har: HarStore | null = null;
+
+  /**
+   * @param errorSchema - Shape of the API's error bodies; subclasses pass their API's schema (null: no error body)
+   */
+  constructor(
+    readonly request: APIRequestContext,
+    public baseUrl: string,
+    protected readonly errorSchema: Schema<ApiErrorBody> | null = null
+  ) {}
+
+  /**
+   * Record calls into, or replay them from, a HAR store (NETWORK_MODE=record|replay)
+   * @param store - Test-scoped HarStore; null detaches it
+   */
+  useHar(store: HarStore | null): void {
+    this.har = store;
+  }
+
+  /**
+   * Create a browserless request context with base URL, default headers and timeout
+   * @param options - Base URL, extra headers, request timeout and optional storageState
+   * @returns New APIRequestContext (caller disposes it)
+   */
+  static async createRequestContext(options: ApiContextOptions): Promise<APIRequestContext> {
+    return await request.newContext({
+      baseURL: options.baseUrl,
+      extraHTTPHeaders: { ...ApiConstants.headers.defaults, ...(options.headers ?? {}) },
+      timeout: options.timeoutMs ?? ApiConstants.limits.requestTimeoutMs,
+      ignoreHTTPSErrors: true,
+      ...(options.storageState ? { storageState: options.storageState } : {}),
+    });
+  }
 
   /**
    * Perform HTTP GET request
-   * @param page - Playwright Page instance for request context
    * @param path - API endpoint path (e.g., '/entries')
    * @returns APIResponse object from Playwright
    */
-  async fetch(page: Page, path: string): Promise<APIResponse> {
-    return await page.request.get(`${this.baseUrl}${path}`);
+  async fetch(path: string): Promise<APIResponse> {
+    return await this.send('GET', path);
+  }
+
+  /**
+   * Perform HTTP POST request with a JSON body
+   * @param path - API endpoint path (e.g., '/view')
+   * @param data - Request payload, serialised as JSON
+   * @returns APIResponse object from Playwright
+   */
+  async post(path: string, data: unknown = {}): Promise<APIResponse> {
+    return await this.send('POST', path, data);
+  }
+
+  private async send(method: 'GET' | 'POST', path: string, data?: unknown): Promise<APIResponse> {
+    const url = `${this.baseUrl}${path}`;
+    if (this.har?.mode === 'replay') {
+      return this.har.replayApi(method, url, data);
+    }
+
+    const start = performance.now();
+    const response = method === 'GET'
+      ? await this.request.get(url)
+      : await this.request.post(url, { data });
+    await this.har?.recordApi(method, url, data, response, performance.now() - start);
+    return response;
+  }
+
+  /**
+   * Copy the API cookie jar into a browser context (API -> UI session bridge)
+   * @param context - BrowserContext that should share the API session
+   * @param url - Optional URL to re-scope cookies to (e.g. the storefront origin)
+   * @returns Number of cookies shared
+   */
+  async shareCookiesWith(context: BrowserContext, url?: string): Promise<number> {
+    const { cookies } = await this.request.storageState();
+    if (cookies.length === 0) return 0;
+
+    await context.addCookies(cookies.map((cookie) => url
+      ? { name: cookie.name, value: cookie.value, url, expires: cookie.expires, httpOnly: cookie.httpOnly, secure: cookie.secure, sameSite: cookie.sameSite }
+      : cookie
+    ));
+    return cookies.length;
+  }
+
+  /**
+   * Parse a response body as JSON, falling back to raw text
+   * Demoblaze returns JSON-encoded strings (e.g. login token) and sometimes empty bodies.
+   * @param res - APIResponse to parse
+   * @returns Parsed JSON value, raw text, or empty string
+   */
+  async parseBody(res: APIResponse): Promise<unknown> {
+    const text = await res.text();
+    if (text.trim().length === 0) return '';
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * Wrap a response into a typed ApiResult
+   * @param res - APIResponse to wrap
+   * @param data - Parsed and typed body
+   * @returns ApiResult carrying status, ok flag, body and raw response
+   */
+  protected toResult<T>(res: APIResponse, data: T): ApiResult<T> {
+    return { status: res.status(), ok: res.ok(), data, response: res };
+  }
+
+  /**
+   * Type guard for the API's error bodies (errorSchema)
+   * @param body - Parsed response body
+   * @returns true if the body matches the error schema
+   */
+  isErrorBody(body: unknown): body is ApiErrorBody {
+    return this.errorSchema !== null && validateSchema(this.errorSchema, body).valid;
+  }
+
+  /**
+   * Parse a response body and narrow it with a schema
+   * @param res - APIResponse to parse
+   * @param schema - Schema describing the expected body
+   * @returns Body narrowed to the schema type
+   * @throws SchemaValidationError listing JSON path, expected type and actual value per mismatch
+   */
+  protected async parseAs<T>(res: APIResponse, schema: Schema<T>): Promise<T> {
+    const body = await this.parseBody(res);
+    return parseWithSchema(schema, body, `${res.url()} (HTTP ${res.status()})`);
+  }
+
+  /**
+   * Assert that the JSON body matches a schema and return the narrowed value
+   * @param res - APIResponse to validate
+   * @param schema - Schema describing the expected body
+   * @returns Body narrowed to the schema type
+   * @throws AssertionError listing every schema mismatch
+   */
+  async expectJsonMatchesSchema<T>(res: APIResponse, schema: Schema<T>): Promise<T> {
+    const body = await this.parseBody(res);
+    const result = validateSchema(schema, body);
+    expect(result.issues, `${res.url()} does not match ${schema.expected}:\n${formatSchemaIssues(result.issues)}`).toEqual([]);
+    return body as T;
   }
 
   /**
    * Fetch entries from /entries endpoint
    * Convenience method for common product catalog operations
-   * @param page - Playwright Page instance for request context
    * @returns APIResponse from /entries endpoint
    */
-  async fetchEntries(page: Page): Promise<APIResponse> {
-    return await this.fetch(page, ApiConstants.paths.entries);
+  async fetchEntries(): Promise<APIResponse> {
+    return await this.fetch(ApiConstants.paths.entries);
   }
 
   /**
@@ -50,16 +200,28 @@ export class BaseApiClient {
   }
 
   /**
-   * Measure API response time for performance testing
-   * @param page - Playwright Page instance for request context
+   * Measure a single API response time (one sample - prefer measureLatency for assertions)
    * @param path - API endpoint path to measure
    * @returns Elapsed time in milliseconds
    */
-  async measureResponseTime(page: Page, path: string): Promise<number> {
-    const start = Date.now();
-    const res = await this.fetch(page, path);
-    const elapsed = Date.now() - start;
-    return elapsed;
+  async measureResponseTime(path: string): Promise<number> {
+    const start = performance.now();
+    await this.fetch(path);
+    return performance.now() - start;
+  }
+
+  /**
+   * Sample an API call repeatedly and summarise latency percentiles
+   * @param label - Name used in the report (usually the endpoint)
+   * @param call - Request to time; non-2xx responses count as errors
+   * @param options - Warm-up count, number of samples and concurrency
+   * @returns Latency report with min/mean/p50/p95/p99/max in milliseconds
+   */
+  async measureLatency(label: string, call: () => Promise<APIResponse>, options: LatencySampleOptions = {}): Promise<LatencyReport> {
+    return await LatencySampler.sample(label, async () => {
+      const res = await call();
+      if (!res.ok()) throw new Error(`${label} returned HTTP ${res.status()}`);
+    }, options);
   }
 
   /**
@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ContractRecorder - Infers response contracts and detects drift against stored snapshots
+ *
+ * CONTRACT_MODE=record rewrites snapshots; any other value (default: verify) diffs against them.
+ * Snapshots live under features/contracts/ and are committed; verify mode never writes them.
+ */
+
+export type ContractType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array' | 'mixed' | 'unknown';
+
+export interface ContractNode {
+  type: ContractType;
+  nullable: boolean;
+  properties?: Record<string, ContractNode>;
+  items?: ContractNode;
+}
+
+export interface ContractSnapshot {
+  endpoint: string;
+  recordedAt: string;
+  schema: ContractNode;
+}
+
+export type ContractChangeKind = 'added-field' | 'removed-field' | 'type-change' | 'nullability-change';
+
+export interface ContractChange {
+  kind: ContractChangeKind;
+  path: string;
+  breaking: boolean;
+  before: string;
+  after: string;
+}
+
+export interface ContractDiff {
+  endpoint: string;
+  status: 'recorded' | 'missing' | 'unchanged' | 'compatible' | 'breaking';
+  breaking: boolean;
+  changes: ContractChange[];
+  snapshotPath: string;
+}
+
+export type ContractMode = 'record' | 'verify';
+
+function describeNode(node: ContractNode | undefined): string {
+  if (!node) return 'absent';
+  return node.nullable && node.type !== 'null' ? `${node.type} | null` : node.type;
+}
+
+/**
+ * Infer a structural contract from a JSON value.
+ * Array items are merged so every field seen on any element is part of the contract.
+ */
+export function inferContract(value: unknown): ContractNode {
+  if (value === null) return { type: 'null', nullable: true };
+  if (Array.isArray(value)) {
+    const items = value.map(inferContract).reduce<ContractNode | undefined>(
+      (merged, item) => (merged ? mergeContracts(merged, item) : item),
+      undefined
+    );
+    return items ? { type: 'array', nullable: false, items } : { type: 'array', nullable: false };
+  }
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return { type: typeof value as ContractType, nullable: false };
+    case 'object': {
+      const properties: Record<string, ContractNode> = {};
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        properties[key] = inferContract(child);
+      }
+      return { type: 'object', nullable: false, properties };
+    }
+    default:
+      return { type: 'unknown', nullable: false };
+  }
+}
+
+/**
+ * Merge two inferred contracts (used for array elements).
+ */
+export function mergeContracts(a: ContractNode, b: ContractNode): ContractNode {
+  if (a.type === 'null') return { ...b, nullable: true };
+  if (b.type === 'null') return { ...a, nullable: true };
+
+  const nullable = a.nullable || b.nullable;
+  if (a.type !== b.type) return { type: 'mixed', nullable };
+
+  if (a.type === 'object') {
+    const properties: Record<string, ContractNode> = { ...(a.properties ?? {}) };
+    for (const [key, node] of Object.entries(b.properties ?? {})) {
+      const existing = properties[key];
+      properties[key] = existing ? mergeContracts(existing, node) : node;
+    }
+    return { type: 'object', nullable, properties };
+  }
+
+  if (a.type === 'array') {
+    const items = a.items && b.items ? mergeContracts(a.items, b.items) : a.items ?? b.items;
+    return items ? { type: 'array', nullable, items } : { type: 'array', nullable };
+  }
+
+  return { type: a.type, nullable };
+}
+
+/**
+ * Classify differences between a baseline and a current contract.
+ *
+ * - added-field: non-breaking
+ * - removed-field / type-change: breaking
+ * - nullability-change: breaking when a field becomes nullable, non-breaking when it stops being nullable
+ */
+export function diffContracts(baseline: ContractNode, current: ContractNode, nodePath = '$'): ContractChange[] {
+  const changes: ContractChange[] = [];
+
+  if (baseline.type !== current.type) {
+    const nullOnly = baseline.type === 'null' || current.type === 'null';
+    if (nullOnly) {
+      changes.push({
+        kind: 'nullability-change',
+        path: nodePath,
+        breaking: current.type === 'null',
+        before: describeNode(baseline),
+        after: describeNode(current),
+      });
+    } else {
+      changes.push({ kind: 'type-change', path: nodePath, breaking: true, before: describeNode(baseline), after: describeNode(current) });
+    }
+    return changes;
+  }
+
+  if (baseline.nullable !== current.nullable) {
+    changes.push({
+      kind: 'nullability-change',
+      path: nodePath,
+      breaking: current.nullable,
+      before: describeNode(baseline),
+      after: describeNode(current),
+    });
+  }
+
+  if (baseline.type === 'object') {
+    const before = baseline.properties ?? {};
+    const after = current.properties ?? {};
+    for (const key of Object.keys(before)) {
+      const childPath = `${nodePath}.${key}`;
+      const afterNode = after[key];
+      if (!afterNode) {
+        changes.push({ kind: 'removed-field', path: childPath, breaking: true, before: describeNode(before[key]), after: 'absent' });
+      } else {
+        changes.push(...diffContracts(before[key]!, afterNode, childPath));
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        changes.push({ kind: 'added-field', path: `${nodePath}.${key}`, breaking: false, before: 'absent', after: describeNode(after[key]) });
+      }
+    }
+  }
+
+  // An empty array in either run carries no item information - nothing to compare.
+  if (baseline.type === 'array' && baseline.items && current.items) {
+    changes.push(...diffContracts(baseline.items, current.items, `${nodePath}[]`));
+  }
+
+  return changes;
+}
+
+/**
+ * Records or verifies contract snapshots on disk.
+ */
+export class ContractRecorder {
+  static readonly DEFAULT_DIR = path.join('features', 'contracts');
+
+  readonly mode: ContractMode;
+
+  constructor(
+    private snapshotDir: string = process.env.CONTRACT_DIR || ContractRecorder.DEFAULT_DIR,
+    mode: ContractMode = process.env.CONTRACT_MODE === 'record' ? 'record' : 'verify'
+  ) {
+    this.mode = mode;
+  }
+
+  snapshotPath(endpoint: string): string {
+    const safeName = endpoint.replace(/^\/+/, '').replace(/[^a-zA-Z0-9_-]+/g, '_') || 'root';
+    return path.join(this.snapshotDir, `${safeName}.contract.json`);
+  }
+
+  loadSnapshot(endpoint: string): ContractSnapshot | null {
+    const file = this.snapshotPath(endpoint);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as ContractSnapshot;
+  }
+
+  saveSnapshot(endpoint: string, schema: ContractNode): string {
+    const file = this.snapshotPath(endpoint);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const snapshot: ContractSnapshot = { endpoint, recordedAt: new Date().toISOString(), schema };
+    fs.writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+    return file;
+  }
+
+  /**
+   * Compare a response body with the stored snapshot (or record it).
+   */
+  check(endpoint: string, body: unknown): ContractDiff {
+    const current = inferContract(body);
+    const snapshotPath = this.snapshotPath(endpoint);
+    const baseline = this.loadSnapshot(endpoint);
+
+    if (this.mode === 'record') {
+      this.saveSnapshot(endpoint, current);
+      return { endpoint, status: 'recorded', breaking: false, changes: [], snapshotPath };
+    }
+    if (!baseline) {
+      return { endpoint, status: 'missing', breaking: false, changes: [], snapshotPath };
+    }
+
+    const changes = diffContracts(baseline.schema, current);
+    const breaking = changes.some((change) => change.breaking);
+    const status = changes.length === 0 ? 'unchanged' : breaking ? 'breaking' : 'compatible';
+    return { endpoint, status, breaking, changes, snapshotPath };
+  }
+}
+
+export function formatContractDiff(diff: ContractDiff): string {
+  if (diff.status === 'missing') return `${diff.endpoint}: no snapshot at ${diff.snapshotPath} - run with CONTRACT_MODE=record`;
+  if (diff.changes.length === 0) return `${diff.endpoint}: ${diff.status}`;
+  const lines = diff.changes.map((change) =>
+    `  [${change.breaking ? 'BREAKING' : 'ok'}] ${change.kind} ${change.path}: ${change.before} -> ${change.after}`
+  );
+  return `${diff.endpoint}: ${diff.status}\n${lines.join('\n')}`;
+}
+
+export default ContractRecorder;
@@ -1,15 +1,208 @@
-import { Page, expect } from '@playwright/test';
+import { APIRequestContext, APIResponse, expect } from '@playwright/test';
 import { BaseApiClient } from './BaseApiClient';
 import { ApiConstants } from './ApiConstants';
+import { randomUUID } from 'crypto';
+import {
+  ApiCategory,
+  ApiResult,
+  AuthResult,
+  CartItem,
+  CartOwner,
+  CartResponse,
+  Credentials,
+  Product,
+  ProductDetail,
+  ProductListResponse,
+} from './ApiTypes';
+import { LatencyReport, LatencySampleOptions, LatencySampler } from './LatencySampler';
+import { ContractDiff, ContractRecorder, formatContractDiff } from './ContractRecorder';
+import { ApiErrorSchema, CartResponseSchema, ProductDetailSchema, ProductListSchema } from './DemoblazeSchemas';
+
+/** Read-only endpoints that can be probed with a representative request. */
+export type ProbeEndpoint = keyof typeof ApiConstants.limits.latencyBudgets;
+
+/** Endpoints with a recorded response contract (see features/contracts/). */
+export type ContractEndpoint = ProbeEndpoint;
 
 /**
  * Domain-specific API validations for demoblaze.com.
  */
 export class DemoblazeApiClient extends BaseApiClient {
   private static readonly DEFAULT_RESPONSE_TIME_LIMIT_MS = ApiConstants.limits.defaultResponseTimeMs;
+  static readonly PROBE_ENDPOINTS: readonly ProbeEndpoint[] = ['entries', 'view', 'bycat', 'pagination', 'viewcart'];
+  static readonly CONTRACT_ENDPOINTS: readonly ContractEndpoint[] = DemoblazeApiClient.PROBE_ENDPOINTS;
+
+  readonly contracts: ContractRecorder;
+
+  constructor(request: APIRequestContext, baseUrl: string, contracts: ContractRecorder = new ContractRecorder()) {
+    super(request, baseUrl, ApiErrorSchema);
+    this.contracts = contracts;
+  }
+
+  /**
+   * Fetch the first page of the product catalog
+   * @returns Typed catalog page (Items + LastEvaluatedKey)
+   */
+  async getEntries(): Promise<ApiResult<ProductListResponse>> {
+    const res = await this.fetchEntries();
+    return this.toResult(res, await this.parseAs(res, ProductListSchema));
+  }
+
+  /**
+   * Fetch a single product by id (POST /view)
+   * @param id - Product id as shown in prod.html?idp_=
+   * @returns Typed product detail
+   */
+  async viewProduct(id: number | string): Promise<ApiResult<ProductDetail>> {
+    const res = await this.post(ApiConstants.paths.view, { id: String(id) });
+    return this.toResult(res, await this.parseAs(res, ProductDetailSchema));
+  }
+
+  /**
+   * Fetch products in a category (POST /bycat)
+   * @param category - API category key ('phone' | 'notebook' | 'monitor')
+   * @returns Typed product list for the category
+   */
+  async getProductsByCategory(category: ApiCategory): Promise<ApiResult<ProductListResponse>> {
+    const res = await this.post(ApiConstants.paths.byCategory, { cat: category });
+    return this.toResult(res, await this.parseAs(res, ProductListSchema));
+  }
+
+  /**
+   * Fetch the catalog page following a given key (POST /pagination)
+   * @param lastEvaluatedId - LastEvaluatedKey.id from the previous page
+   * @returns Typed catalog page
+   */
+  async getNextPage(lastEvaluatedId: string): Promise<ApiResult<ProductListResponse>> {
+    const res = await this.post(ApiConstants.paths.pagination, { id: lastEvaluatedId });
+    return this.toResult(res, await this.parseAs(res, ProductListSchema));
+  }
+
+  /**
+   * Walk the catalog page by page: /entries, then /pagination with each LastEvaluatedKey
+   * @returns Async iterator over the catalog pages, ending after the page without a key
+   * @throws Error when a page request fails or a key repeats (the API would loop forever)
+   */
+  async *catalogPages(): AsyncGenerator<ApiResult<ProductListResponse>> {
+    const seenKeys = new Set<string>();
+    let page = await this.getEntries();
+
+    while (true) {
+      if (!page.ok) {
+        throw new Error(`Catalog page request failed: HTTP ${page.status}`);
+      }
+      yield page;
+
+      const key = page.data.LastEvaluatedKey?.id;
+      if (!key || page.data.Items.length === 0) return;
+      if (seenKeys.has(key)) {
+        throw new Error(`Pagination repeated LastEvaluatedKey ${key}`);
+      }
+      seenKeys.add(key);
+      page = await this.getNextPage(key);
+    }
+  }
+
+  /**
+   * Async iterator over every product in the catalog, across all pages
+   */
+  async *catalogProducts(): AsyncGenerator<Product> {
+    for await (const page of this.catalogPages()) {
+      yield* page.data.Items;
+    }
+  }
+
+  /**
+   * Collect the full catalog (all pages)
+   * @returns Products in API order
+   */
+  async getAllProducts(): Promise<Product[]> {
+    const products: Product[] = [];
+    for await (const product of this.catalogProducts()) {
+      products.push(product);
+    }
+    return products;
+  }
+
+  /**
+   * Register a new user (POST /signup)
+   * Password is base64-encoded the same way the storefront does before sending.
+   * @param credentials - Username and plain-text password
+   * @returns AuthResult with success flag or the API error message (e.g. duplicate user)
+   */
+  async signup(credentials: Credentials): Promise<ApiResult<AuthResult>> {
+    const res = await this.post(ApiConstants.paths.signup, this.encodeCredentials(credentials));
+    const body = await this.parseBody(res);
+    const errorMessage = this.isErrorBody(body) ? body.errorMessage : null;
+    return this.toResult(res, { success: res.ok() && errorMessage === null, token: null, errorMessage });
+  }
+
+  /**
+   * Log in an existing user (POST /login)
+   * @param credentials - Username and plain-text password
+   * @returns AuthResult with the auth token (without the 'Auth_token: ' prefix) or the API error message
+   */
+  async login(credentials: Credentials): Promise<ApiResult<AuthResult>> {
+    const res = await this.post(ApiConstants.paths.login, this.encodeCredentials(credentials));
+    const body = await this.parseBody(res);
+    const prefix = ApiConstants.auth.tokenPrefix;
+
+    if (typeof body === 'string' && body.startsWith(prefix)) {
+      return this.toResult(res, { success: true, token: body.slice(prefix.length).trim(), errorMessage: null });
+    }
+
+    const errorMessage = this.isErrorBody(body) ? body.errorMessage : `Unexpected login response: ${JSON.stringify(body)}`;
+    return this.toResult(res, { success: false, token: null, errorMessage });
+  }
+
+  /**
+   * Add a product to a cart (POST /addtocart)
+   * The API answers with an empty body, so the created cart item is returned instead.
+   * @param owner - Cart owner (guest user cookie or auth token)
+   * @param productId - Product id to add
+   * @returns The cart item that was created (id can be passed to deleteItem)
+   */
+  async addToCart(owner: CartOwner, productId: number): Promise<ApiResult<CartItem>> {
+    const item: CartItem = { id: randomUUID(), cookie: owner.cookie, prod_id: productId };
+    const res = await this.post(ApiConstants.paths.addToCart, { ...item, flag: owner.flag });
+    return this.toResult(res, item);
+  }
+
+  /**
+   * Read a cart (POST /viewcart)
+   * @param owner - Cart owner (guest user cookie or auth token)
+   * @returns Typed cart contents
+   */
+  async viewCart(owner: CartOwner): Promise<ApiResult<CartResponse>> {
+    const res = await this.post(ApiConstants.paths.viewCart, { cookie: owner.cookie, flag: owner.flag });
+    return this.toResult(res, await this.parseAs(res, CartResponseSchema));
+  }
+
+  /**
+   * Remove a single cart item (POST /deleteitem)
+   * @param cartItemId - Cart item id (CartItem.id, not the product id)
+   * @returns API confirmation message
+   */
+  async deleteItem(cartItemId: string): Promise<ApiResult<string>> {
+    const res = await this.post(ApiConstants.paths.deleteItem, { id: cartItemId });
+    return this.toResult(res, String(await this.parseBody(res)));
+  }
+
+  /**
+   * Empty a cart (POST /deletecart)
+   * @param cookie - Cart owner cookie (guest user id or auth token)
+   * @returns API confirmation message
+   */
+  async deleteCart(cookie: string): Promise<ApiResult<string>> {
+    const res = await this.post(ApiConstants.paths.deleteCart, { cookie });
+    return this.toResult(res, String(await this.parseBody(res)));
+  }
 
-  constructor(baseUrl: string) {
-    super(baseUrl);
+  private encodeCredentials(credentials: Credentials): Credentials {
+    return {
+      username: credentials.username,
+      password: Buffer.from(credentials.password, 'utf8').toString('base64'),
+    };
   }
 
   /**
@@ -17,51 +210,133 @@ export class DemoblazeApiClient extends BaseApiClient {
    * 
    * Business validation for product API:
    * - Status 200 OK
-   * - Valid JSON schema with 'Items' property
-   * - Array of products with required fields (title, price, id)
-   * - Correct data types (string, number)
+   * - Body matches ProductListSchema (id, title, price, cat, desc, img on every item)
+   * - Non-empty catalog
    * - Sample product validation (Samsung exists with valid price)
    * 
-   * @param page - Playwright Page instance for request context
    * @throws AssertionError if any validation fails
    */
-  async verifyProductCatalog(page: Page): Promise<void> {
-    const res = await this.fetchEntries(page);
+  async verifyProductCatalog(): Promise<void> {
+    const res = await this.fetchEntries();
     await this.expectStatusOk(res);
 
-    const apiData = await res.json();
-    expect(apiData).toHaveProperty('Items');
-    const products = apiData.Items;
-
-    expect(Array.isArray(products)).toBe(true);
+    const catalog = await this.expectJsonMatchesSchema(res, ProductListSchema);
+    const products = catalog.Items;
     expect(products.length).toBeGreaterThan(0);
 
-    const requiredFields = ['title', 'price', 'id'];
-    products.forEach((product: any) => {
-      requiredFields.forEach((field) => expect(product).toHaveProperty(field));
-      expect(typeof product.title).toBe('string');
-      expect(typeof product.price).toBe('number');
-      expect(typeof product.id).toBe('number');
-    });
-
-    const samsungProduct = products.find((p: any) => p.title.toLowerCase().includes('samsung'));
+    const samsungProduct = products.find((p) => p.title.toLowerCase().includes('samsung'));
     expect(samsungProduct).toBeDefined();
-    expect(samsungProduct.price).toBeGreaterThan(0);
+    expect(samsungProduct!.price).toBeGreaterThan(0);
+  }
+
+  /**
+   * Verify an endpoint's response contract against its recorded snapshot
+   *
+   * Infers the structural contract of a representative response and diffs it with
+   * features/contracts/<endpoint>.contract.json. Added fields and fields that stop being
+   * nullable are reported as compatible; removed fields, type changes and fields that become
+   * nullable are breaking. With CONTRACT_MODE=record the snapshot is written instead.
+   * The /viewcart probe reads a freshly seeded cart, so the contract covers cart item fields.
+   *
+   * @param endpoint - Endpoint to probe
+   * @returns Contract diff with classified changes
+   * @throws AssertionError if the snapshot is missing (verify mode) or any breaking change is detected
+   */
+  async verifyContract(endpoint: ContractEndpoint): Promise<ContractDiff> {
+    const res = endpoint === 'viewcart' ? await this.probeSeededCart() : await this.probeEndpoint(endpoint);
+    await this.expectStatusOk(res);
+
+    const diff = this.contracts.check(endpoint, await this.parseBody(res));
+    expect(diff.status, formatContractDiff(diff)).not.toBe('missing');
+    expect(diff.breaking, formatContractDiff(diff)).toBe(false);
+    return diff;
+  }
+
+  private async probeSeededCart(): Promise<APIResponse> {
+    const owner: CartOwner = { cookie: randomUUID(), flag: false };
+    await this.addToCart(owner, 1);
+    try {
+      return await this.post(ApiConstants.paths.viewCart, { cookie: owner.cookie, flag: owner.flag });
+    } finally {
+      await this.deleteCart(owner.cookie);
+    }
+  }
+
+  private async probeEndpoint(endpoint: ProbeEndpoint): Promise<APIResponse> {
+    switch (endpoint) {
+      case 'entries':
+        return await this.fetchEntries();
+      case 'view':
+        return await this.post(ApiConstants.paths.view, { id: '1' });
+      case 'bycat':
+        return await this.post(ApiConstants.paths.byCategory, { cat: ApiConstants.categories.phones });
+      case 'pagination':
+        return await this.post(ApiConstants.paths.pagination, { id: '9' });
+      case 'viewcart':
+        return await this.post(ApiConstants.paths.viewCart, { cookie: randomUUID(), flag: false });
+    }
   }
 
   /**
    * Verify API response time meets SLA requirements
    * 
-   * Measures elapsed time from request to response and validates against limit.
+   * Samples /entries (after warm-up, LatencySampler.DEFAULT_SAMPLES = 20 by default) and validates
+   * the p95 against the limit, so a single slow request does not fail the check.
    * Default SLA: 2000ms (2 seconds)
    * 
-   * @param page - Playwright Page instance for request context
-   * @param limitMs - Maximum acceptable response time in milliseconds (default: 2000)
-   * @throws AssertionError if response time exceeds limit
+   * @param limitMs - Maximum acceptable p95 response time in milliseconds (default: 2000)
+   * @param options - Warm-up count, number of samples and concurrency
+   * @returns Latency report for attaching to the test
+   * @throws AssertionError if any request failed or p95 exceeds limit
+   */
+  async verifyResponseTime(
+    limitMs = DemoblazeApiClient.DEFAULT_RESPONSE_TIME_LIMIT_MS,
+    options: LatencySampleOptions = {}
+  ): Promise<LatencyReport> {
+    const report = await this.measureLatency('entries', () => this.probeEndpoint('entries'), options);
+    expect(report.errors, `${report.errors} of ${report.samples} requests failed`).toBe(0);
+    expect(report.stats.p95).toBeLessThan(limitMs);
+    return report;
+  }
+
+  /**
+   * Sample an endpoint's latency and tag the report with its budget from ApiConstants.limits.latencyBudgets
+   * 
+   * @param endpoint - Endpoint to sample
+   * @param options - Warm-up count, number of samples and concurrency
+   * @returns Latency report including the budget it should be checked against
+   */
+  async measureEndpointLatency(endpoint: ProbeEndpoint, options: LatencySampleOptions = {}): Promise<LatencyReport> {
+    const report = await this.measureLatency(endpoint, () => this.probeEndpoint(endpoint), options);
+    return { ...report, budget: ApiConstants.limits.latencyBudgets[endpoint] };
+  }
+
+  /**
+   * Assert a latency report against its budget
+   * 
+   * @param report - Report from measureEndpointLatency (or any report with a budget)
+   * @throws AssertionError if any request failed or p95/p99 exceed the budget
+   */
+  expectWithinLatencyBudget(report: LatencyReport): void {
+    const summary = LatencySampler.toMarkdown([report]);
+    expect(report.budget, `No latency budget declared for ${report.label}`).toBeDefined();
+    expect(report.errors, `${report.errors} of ${report.samples} requests failed\n${summary}`).toBe(0);
+    expect(report.stats.p95, `p95 over budget\n${summary}`).toBeLessThanOrEqual(report.budget!.p95Ms);
+    expect(report.stats.p99, `p99 over budget\n${summary}`).toBeLessThanOrEqual(report.budget!.p99Ms);
+  }
+
+  /**
+   * Verify an endpoint's sampled latency against its budget
+   * 
+   * @param endpoint - Endpoint to sample
+   * @param options - Warm-up count, number of samples and concurrency
+   * @returns Latency report including the budget it was checked against
+   * @throws AssertionError if any request failed or p95/p99 exceed the budget
    */
-  async verifyResponseTime(page: Page, limitMs = DemoblazeApiClient.DEFAULT_RESPONSE_TIME_LIMIT_MS): Promise<void> {
-    const elapsed = await this.measureResponseTime(page, ApiConstants.paths.entries);
-    expect(elapsed).toBeLessThan(limitMs);
+  async verifyLatencyBudget(endpoint: ProbeEndpoint, options: LatencySampleOptions = {}): Promise<LatencyReport> {
+    const report = await this.measureEndpointLatency(endpoint, options);
+    this.expectWithinLatencyBudget(report);
+    return report;
   }
 
   /**
@@ -71,11 +346,10 @@ export class DemoblazeApiClient extends BaseApiClient {
    * Validates that API returns 4xx error codes (404, 400, or 405).
    * Ensures API doesn't leak internal errors (e.g., 500).
    * 
-   * @param page - Playwright Page instance for request context
    * @throws AssertionError if response is 200 or not in expected error range
    */
-  async verifyInvalidEndpointError(page: Page): Promise<void> {
-    const res = await page.request.get(`${this.baseUrl}${ApiConstants.paths.invalidEndpoint}`, { ignoreHTTPSErrors: true });
+  async verifyInvalidEndpointError(): Promise<void> {
+    const res = await this.fetch(ApiConstants.paths.invalidEndpoint);
     expect(res.status()).not.toBe(200);
     expect(ApiConstants.status.validErrorStatuses).toContain(res.status());
   }
@@ -88,11 +362,10 @@ export class DemoblazeApiClient extends BaseApiClient {
    * - HTTP status is 200 OK
    * - Response size is under 1MB (prevents excessive payloads)
    * 
-   * @param page - Playwright Page instance for request context
    * @throws AssertionError if headers invalid or payload too large
    */
-  async verifyResponseHeaders(page: Page): Promise<void> {
-    const res = await this.fetchEntries(page);
+  async verifyResponseHeaders(): Promise<void> {
+    const res = await this.fetchEntries();
     await this.expectHeaderContentTypeJson(res);
     await this.expectStatusOk(res);
 
@@ -0,0 +1,59 @@
+import { s, Schema } from './ApiSchema';
+import {
+  ApiErrorBody,
+  CartItem,
+  CartResponse,
+  Product,
+  ProductDetail,
+  ProductListResponse,
+} from './ApiTypes';
+
+/**
+ * DemoblazeSchemas - Runtime contracts for Demoblaze API response bodies
+ */
+
+export const ProductSchema: Schema<Product> = s.object<Product>({
+  id: s.number({ integer: true, min: 1 }),
+  title: s.string({ minLength: 1 }),
+  price: s.number({ min: 0 }),
+  cat: s.string({ minLength: 1 }),
+  desc: s.string(),
+  img: s.string({ pattern: /^imgs\/.+\.(jpg|jpeg|png|webp)$/i }),
+}, { name: 'Product' });
+
+export const ProductDetailSchema: Schema<ProductDetail> = s.object<ProductDetail>({
+  id: s.number({ integer: true, min: 1 }),
+  title: s.string({ minLength: 1 }),
+  price: s.number({ min: 0 }),
+  cat: s.string({ minLength: 1 }),
+  desc: s.string({ minLength: 1 }),
+  img: s.string({ minLength: 1 }),
+}, { name: 'ProductDetail' });
+
+export const ProductListSchema: Schema<ProductListResponse> = s.object<ProductListResponse>({
+  Items: s.array(ProductSchema),
+  LastEvaluatedKey: s.optional(s.object<{ id: string }>({ id: s.string({ minLength: 1 }) }, { name: 'LastEvaluatedKey' })),
+}, { name: 'ProductListResponse' });
+
+export const CartItemSchema: Schema<CartItem> = s.object<CartItem>({
+  id: s.string({ minLength: 1 }),
+  cookie: s.string({ minLength: 1 }),
+  prod_id: s.number({ integer: true, min: 1 }),
+}, { name: 'CartItem' });
+
+export const CartResponseSchema: Schema<CartResponse> = s.object<CartResponse>({
+  Items: s.array(CartItemSchema),
+}, { name: 'CartResponse' });
+
+export const ApiErrorSchema: Schema<ApiErrorBody> = s.object<ApiErrorBody>({
+  errorMessage: s.string({ minLength: 1 }),
+}, { name: 'ApiErrorBody' });
+
+export const DemoblazeSchemas = {
+  product: ProductSchema,
+  productDetail: ProductDetailSchema,
+  productList: ProductListSchema,
+  cartItem: CartItemSchema,
+  cartResponse: CartResponseSchema,
+  error: ApiErrorSchema,
+} as const;
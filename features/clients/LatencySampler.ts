@@ -0,0 +1,149 @@
+import { TestInfo } from '@playwright/test';
+import { performance } from 'perf_hooks';
+import { ArtifactStore } from '../utils/ArtifactStore';
+
+/**
+ * LatencySampler - Repeated latency measurement with percentile statistics
+ *
+ * Replaces single Date.now() samples: warm-up requests are discarded, then N samples
+ * are taken (optionally concurrently) and summarised as min/mean/p50/p95/p99/max.
+ */
+
+export interface LatencySampleOptions {
+  /** Requests issued and discarded before measuring (connection setup, caches) */
+  warmup?: number;
+  /** Number of measured requests */
+  samples?: number;
+  /** Number of requests in flight at once */
+  concurrency?: number;
+}
+
+export interface LatencyStats {
+  min: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LatencyBudget {
+  p95Ms: number;
+  p99Ms: number;
+}
+
+export interface LatencyReport {
+  label: string;
+  warmup: number;
+  samples: number;
+  concurrency: number;
+  errors: number;
+  durationsMs: number[];
+  stats: LatencyStats;
+  budget?: LatencyBudget;
+}
+
+export class LatencySampler {
+  static readonly DEFAULT_WARMUP = 2;
+  /** Nearest-rank p95 only differs from the max from 20 samples on, p99 from 100 */
+  static readonly DEFAULT_SAMPLES = 20;
+  static readonly P99_SAMPLES = 100;
+  static readonly DEFAULT_CONCURRENCY = 1;
+
+  /**
+   * Time an async operation repeatedly.
+   * An operation that throws counts as an error and is excluded from the statistics.
+   */
+  static async sample(
+    label: string,
+    operation: () => Promise<unknown>,
+    options: LatencySampleOptions = {}
+  ): Promise<LatencyReport> {
+    const warmup = options.warmup ?? LatencySampler.DEFAULT_WARMUP;
+    const samples = Math.max(1, options.samples ?? LatencySampler.DEFAULT_SAMPLES);
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? LatencySampler.DEFAULT_CONCURRENCY, samples));
+
+    for (let i = 0; i < warmup; i++) {
+      await operation().catch(() => undefined);
+    }
+
+    const durationsMs: number[] = [];
+    let errors = 0;
+    let issued = 0;
+
+    const runWorker = async (): Promise<void> => {
+      while (issued < samples) {
+        issued++;
+        const start = performance.now();
+        try {
+          await operation();
+          durationsMs.push(performance.now() - start);
+        } catch {
+          errors++;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, runWorker));
+
+    return {
+      label,
+      warmup,
+      samples,
+      concurrency,
+      errors,
+      durationsMs: durationsMs.map(LatencySampler.round),
+      stats: LatencySampler.computeStats(durationsMs),
+    };
+  }
+
+  static computeStats(durationsMs: number[]): LatencyStats {
+    if (durationsMs.length === 0) {
+      return { min: NaN, mean: NaN, p50: NaN, p95: NaN, p99: NaN, max: NaN };
+    }
+    const sorted = [...durationsMs].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    return {
+      min: LatencySampler.round(sorted[0]!),
+      mean: LatencySampler.round(mean),
+      p50: LatencySampler.percentile(sorted, 50),
+      p95: LatencySampler.percentile(sorted, 95),
+      p99: LatencySampler.percentile(sorted, 99),
+      max: LatencySampler.round(sorted[sorted.length - 1]!),
+    };
+  }
+
+  /**
+   * Nearest-rank percentile over an ascending array (p95 of 20 samples is the 19th, p99 of 100 the 99th).
+   */
+  static percentile(sortedAsc: number[], percentile: number): number {
+    const rank = Math.ceil((percentile / 100) * sortedAsc.length);
+    const index = Math.min(sortedAsc.length - 1, Math.max(0, rank - 1));
+    return LatencySampler.round(sortedAsc[index]!);
+  }
+
+  static toMarkdown(reports: LatencyReport[]): string {
+    const header = '| Endpoint | Samples | Errors | Min | Mean | p50 | p95 | p99 | Max | Budget p95/p99 |';
+    const divider = '|---|---|---|---|---|---|---|---|---|---|';
+    const rows = reports.map((report) => {
+      const { stats, budget } = report;
+      const budgetCell = budget ? `${budget.p95Ms} / ${budget.p99Ms}` : '-';
+      return `| ${report.label} | ${report.samples} (x${report.concurrency}) | ${report.errors} | ${stats.min} | ${stats.mean} | ${stats.p50} | ${stats.p95} | ${stats.p99} | ${stats.max} | ${budgetCell} |`;
+    });
+    return [header, divider, ...rows].join('\n');
+  }
+
+  /**
+   * Attach latency reports to the test as JSON and a Markdown table (all values in ms).
+   */
+  static async attach(testInfo: TestInfo, reports: LatencyReport[], attachmentName = 'api-latency'): Promise<void> {
+    if (reports.length === 0) return;
+    await ArtifactStore.for(testInfo).attachReport(attachmentName, reports, LatencySampler.toMarkdown(reports));
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+export default LatencySampler;
@@ -4,3 +4,14 @@
  */
 export { BaseApiClient } from './BaseApiClient';
 export { DemoblazeApiClient } from './DemoblazeApiClient';
+export { ApiConstants } from './ApiConstants';
+export type * from './ApiTypes';
+export { s, validateSchema, parseWithSchema, SchemaValidationError } from './ApiSchema';
+export type { Schema, SchemaIssue, SchemaResult } from './ApiSchema';
+export { DemoblazeSchemas } from './DemoblazeSchemas';
+export { ContractRecorder, inferContract, diffContracts } from './ContractRecorder';
+export type { ContractDiff, ContractChange, ContractNode } from './ContractRecorder';
+export { LatencySampler } from './LatencySampler';
+export type { LatencyReport, LatencyStats, LatencyBudget, LatencySampleOptions } from './LatencySampler';
+export { AuthSession } from './AuthSession';
+export type { AuthenticatedUser, AuthSessionOptions } from './AuthSession';
@@ -0,0 +1,18 @@
+import { Page, Locator } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { ModalComponent } from './ModalComponent';
+
+/**
+ * About us modal (#videoModal), opened from the "About us" nav link.
+ */
+export class AboutUsModal extends ModalComponent {
+  readonly video: Locator;
+
+  constructor(page: Page, locators: DemoblazeLocators) {
+    const { home } = locators;
+    super(page, home.aboutUsModal, home.aboutUsLink, home.aboutUsModalClose);
+    this.video = home.aboutUsModal.locator('#example-video');
+  }
+}
+
+export default AboutUsModal;
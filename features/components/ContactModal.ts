@@ -0,0 +1,34 @@
+import { Page, Locator } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { ModalComponent } from './ModalComponent';
+
+/**
+ * Contact modal (#exampleModal, "New message"), opened from the "Contact" nav link.
+ */
+export class ContactModal extends ModalComponent {
+  readonly email: Locator;
+  readonly name: Locator;
+  readonly message: Locator;
+  readonly sendButton: Locator;
+
+  constructor(page: Page, locators: DemoblazeLocators) {
+    const { home } = locators;
+    super(page, home.contactModal, home.contactLink, home.contactModalClose);
+    this.email = home.contactEmail;
+    this.name = home.contactName;
+    this.message = home.contactMessage;
+    this.sendButton = home.contactSendButton;
+  }
+
+  async fill(email: string, name: string, message: string): Promise<void> {
+    await this.email.fill(email);
+    await this.name.fill(name);
+    await this.message.fill(message);
+  }
+
+  async send(): Promise<void> {
+    await this.sendButton.click();
+  }
+}
+
+export default ContactModal;
@@ -0,0 +1,32 @@
+import { Page, Locator } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { Credentials } from '../clients/ApiTypes';
+import { ModalComponent } from './ModalComponent';
+
+/**
+ * Log in modal (#logInModal), opened from the "Log in" nav link.
+ */
+export class LoginModal extends ModalComponent {
+  readonly username: Locator;
+  readonly password: Locator;
+  readonly submitButton: Locator;
+
+  constructor(page: Page, locators: DemoblazeLocators) {
+    const { home } = locators;
+    super(page, home.loginModal, home.loginLink, home.loginModalClose);
+    this.username = home.loginUsername;
+    this.password = home.loginPassword;
+    this.submitButton = home.loginButton;
+  }
+
+  async fill(credentials: Credentials): Promise<void> {
+    await this.username.fill(credentials.username);
+    await this.password.fill(credentials.password);
+  }
+
+  async submit(): Promise<void> {
+    await this.submitButton.click();
+  }
+}
+
+export default LoginModal;
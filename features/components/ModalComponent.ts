@@ -0,0 +1,97 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { TestLogger } from '../utils/TestLogger';
+import { WaitHelper } from '../utils/WaitHelper';
+
+/**
+ * ModalComponent - Shared open/close/focus behaviour for the storefront's Bootstrap modals
+ *
+ * Subclasses supply the modal root, the element that opens it and its X button; page objects
+ * compose them (e.g. homePage.modals.login) instead of re-implementing open/close per modal.
+ */
+
+/** How a modal is dismissed: the X button, the Escape key, or a click on the backdrop outside the dialog. */
+export type ModalCloseMethod = 'x' | 'escape' | 'backdrop';
+
+export abstract class ModalComponent {
+  static readonly CLOSE_METHODS: readonly ModalCloseMethod[] = ['x', 'escape', 'backdrop'];
+
+  readonly page: Page;
+  readonly root: Locator;
+  readonly trigger: Locator;
+  readonly closeButton: Locator;
+  readonly title: Locator;
+  protected logger: TestLogger;
+
+  protected constructor(page: Page, root: Locator, trigger: Locator, closeButton: Locator) {
+    this.page = page;
+    this.root = root;
+    this.trigger = trigger;
+    this.closeButton = closeButton;
+    this.title = root.locator('.modal-title');
+    this.logger = new TestLogger(this.constructor.name);
+  }
+
+  async open(): Promise<void> {
+    await this.trigger.click();
+    await this.expectOpen();
+    this.logger.debug('Opened');
+  }
+
+  async close(method: ModalCloseMethod = 'x'): Promise<void> {
+    switch (method) {
+      case 'x':
+        await this.closeButton.click();
+        break;
+      case 'escape':
+        await this.page.keyboard.press('Escape');
+        break;
+      case 'backdrop':
+        // The .modal container spans the viewport; its corner lies outside the centred dialog
+        await this.root.click({ position: { x: 5, y: 5 } });
+        break;
+    }
+    await this.expectClosed();
+    this.logger.debug(`Closed via ${method}`);
+  }
+
+  async isOpen(): Promise<boolean> {
+    return await this.root.isVisible().catch(() => false);
+  }
+
+  async expectOpen(): Promise<void> {
+    await expect(this.root).toBeVisible();
+  }
+
+  async expectClosed(): Promise<void> {
+    await expect(this.root).toBeHidden();
+  }
+
+  // =========================================================================
+  // FOCUS MANAGEMENT
+  // =========================================================================
+
+  async expectFocusInside(): Promise<void> {
+    await expect.poll(
+      async () => await this.root.evaluate((modal) => modal.contains(document.activeElement)),
+      { message: `Focus should move into ${this.constructor.name}`, timeout: WaitHelper.DEFAULT_TIMEOUT_MS }
+    ).toBe(true);
+  }
+
+  async expectFocusRestored(): Promise<void> {
+    await expect(this.trigger, `Focus should return to the element that opened ${this.constructor.name}`).toBeFocused();
+  }
+
+  /**
+   * Open the modal, assert focus moves into it, close it and assert focus returns to the trigger
+   * @param method - How to dismiss the modal
+   */
+  async expectFocusManaged(method: ModalCloseMethod = 'x'): Promise<void> {
+    await this.open();
+    await this.expectFocusInside();
+    await this.close(method);
+    await this.expectFocusRestored();
+    this.logger.info(`Focus managed (closed via ${method})`);
+  }
+}
+
+export default ModalComponent;
@@ -0,0 +1,44 @@
+import { Page, Locator } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { CheckoutFormData } from '../data/cartData';
+import { ModalComponent } from './ModalComponent';
+
+/**
+ * Place order modal (#orderModal), opened from the cart's "Place Order" button.
+ */
+export class OrderModal extends ModalComponent {
+  readonly name: Locator;
+  readonly country: Locator;
+  readonly city: Locator;
+  readonly creditCard: Locator;
+  readonly month: Locator;
+  readonly year: Locator;
+  readonly purchaseButton: Locator;
+
+  constructor(page: Page, locators: DemoblazeLocators) {
+    const { cart } = locators;
+    super(page, cart.orderModal, cart.placeOrderButton, cart.orderModalClose);
+    this.name = cart.orderName;
+    this.country = cart.orderCountry;
+    this.city = cart.orderCity;
+    this.creditCard = cart.orderCreditCard;
+    this.month = cart.orderMonth;
+    this.year = cart.orderYear;
+    this.purchaseButton = cart.purchaseButton;
+  }
+
+  async fill(data: CheckoutFormData): Promise<void> {
+    await this.name.fill(data.name);
+    await this.country.fill(data.country);
+    await this.city.fill(data.city);
+    await this.creditCard.fill(data.creditCard);
+    await this.month.fill(data.month);
+    await this.year.fill(data.year);
+  }
+
+  async purchase(): Promise<void> {
+    await this.purchaseButton.click();
+  }
+}
+
+export default OrderModal;
@@ -0,0 +1,32 @@
+import { Page, Locator } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { Credentials } from '../clients/ApiTypes';
+import { ModalComponent } from './ModalComponent';
+
+/**
+ * Sign up modal (#signInModal), opened from the "Sign up" nav link.
+ */
+export class SignUpModal extends ModalComponent {
+  readonly username: Locator;
+  readonly password: Locator;
+  readonly submitButton: Locator;
+
+  constructor(page: Page, locators: DemoblazeLocators) {
+    const { auth } = locators;
+    super(page, auth.signupModal, auth.signupLink, auth.signupModalClose);
+    this.username = auth.signupUsername;
+    this.password = auth.signupPassword;
+    this.submitButton = auth.signupButton;
+  }
+
+  async fill(credentials: Credentials): Promise<void> {
+    await this.username.fill(credentials.username);
+    await this.password.fill(credentials.password);
+  }
+
+  async submit(): Promise<void> {
+    await this.submitButton.click();
+  }
+}
+
+export default SignUpModal;
@@ -0,0 +1,11 @@
+/**
+ * Components Export
+ * Reusable UI components composed into page objects
+ */
+export { ModalComponent } from './ModalComponent';
+export type { ModalCloseMethod } from './ModalComponent';
+export { LoginModal } from './LoginModal';
+export { SignUpModal } from './SignUpModal';
+export { ContactModal } from './ContactModal';
+export { AboutUsModal } from './AboutUsModal';
+export { OrderModal } from './OrderModal';
@@ -0,0 +1,11 @@
+/**
+ * API Layer Test Data
+ */
+export const apiProducts = {
+  samsungGalaxyS6: { id: 1, title: 'Samsung galaxy s6' },
+  nokiaLumia1520: { id: 2, title: 'Nokia lumia 1520' },
+  nexus6: { id: 3, title: 'Nexus 6' },
+  macbookAir: { id: 11, title: 'MacBook air' }
+} as const;
+
+export default { apiProducts };
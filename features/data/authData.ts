@@ -3,7 +3,24 @@
  */
 export const authData = {
   invalidUsername: 'invalid_user_12345',
-  invalidPassword: 'wrong_password_xyz'
+  invalidPassword: 'wrong_password_xyz',
+  uniqueUserPrefix: 'pw_auto',
+  defaultPassword: 'Pw-Automation-1!',
+  // Native dialog texts shown by the storefront
+  messages: {
+    signupSuccess: 'Sign up successful.',
+    userExists: 'This user already exist.',
+    wrongPassword: 'Wrong password.',
+    userNotFound: 'User does not exist.'
+  }
 } as const;
 
+/**
+ * Build credentials for a user that does not exist yet (signup flows).
+ */
+export function buildUniqueCredentials(prefix: string = authData.uniqueUserPrefix): { username: string; password: string } {
+  const suffix = `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  return { username: `${prefix}_${suffix}`, password: authData.defaultPassword };
+}
+
 export default { authData };
@@ -5,16 +5,18 @@
 import { products, categories } from './homeData';
 import { checkoutData, CheckoutFormData } from './cartData';
 import { contactFormData } from './contactData';
-import { authData } from './authData';
+import { authData, buildUniqueCredentials } from './authData';
+import { apiProducts } from './apiData';
 
-export { products, categories, checkoutData, contactFormData, authData };
+export { products, categories, checkoutData, contactFormData, authData, buildUniqueCredentials, apiProducts };
 export type { CheckoutFormData };
 
 export class DemoblazeTestDataFacade {
   readonly home = { products, categories };
   readonly cart = { checkoutData };
   readonly contact = { contactFormData };
-  readonly auth = { authData };
+  readonly auth = { authData, buildUniqueCredentials };
+  readonly api = { apiProducts };
 }
 
 export const testData = new DemoblazeTestDataFacade();
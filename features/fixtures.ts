@@ -1,61 +1,336 @@
-import { test as base } from '@playwright/test';
+import * as path from 'path';
+import { test as base, expect, APIRequestContext, Location, TestStepInfo } from '@playwright/test';
 import { DemoblazeHomePage } from './pages/DemoblazeHomePage';
 import { DemoblazeProductPage } from './pages/DemoblazeProductPage';
 import { DemoblazeCartPage } from './pages/DemoblazeCartPage';
+import { DemoblazeAuthPage } from './pages/DemoblazeAuthPage';
 import { DemoblazeLocators } from './locators/DemoblazeLocators';
 import { AccessibilityAudit } from './utils/AccessibilityAudit';
 import { DemoblazeApiClient } from './clients/DemoblazeApiClient';
-import { TestLogger } from './utils/TestLogger';
+import { BaseApiClient } from './clients/BaseApiClient';
+import { AuthSession, AuthenticatedUser } from './clients/AuthSession';
+import { buildUniqueCredentials } from './data/authData';
+import { TestLogger, LogLevel, LogFormat } from './utils/TestLogger';
+import { HarStore } from './utils/HarStore';
+import { CartSeeder } from './utils/CartSeeder';
+import { CatalogConsistencyChecker } from './utils/CatalogConsistency';
+import { DialogManager } from './utils/DialogManager';
+import { LocatorAuditor } from './utils/LocatorAuditor';
+import { ArtifactStore } from './utils/ArtifactStore';
+import { DemoblazeMockServer } from './mocks/DemoblazeMockServer';
+import { StorefrontServer } from './mocks/StorefrontServer';
+import { DEFAULT_TIMEOUT_HOLD_MS, NetworkController, NetworkScenarioName } from './mocks/NetworkScenarios';
+
+const DEFAULT_STOREFRONT_URL = 'https://www.demoblaze.com/index.html';
 
 type DemoblazeFixtures = {
   locators: DemoblazeLocators;
   demoblazeHomePage: DemoblazeHomePage;
   demoblazeProductPage: DemoblazeProductPage;
   demoblazeCartPage: DemoblazeCartPage;
+  demoblazeAuthPage: DemoblazeAuthPage;
   a11yAudit: AccessibilityAudit;
   apiClient: DemoblazeApiClient;
   logger: TestLogger;
+  mockApi: DemoblazeMockServer | null;
+  networkScenario: NetworkScenarioName | NetworkScenarioName[] | null;
+  networkTimeoutHoldMs: number;
+  network: NetworkController;
+  harStore: HarStore | null;
+  authenticated: boolean;
+  authenticatedUser: AuthenticatedUser | null;
+  cartSeeder: CartSeeder;
+  catalogConsistency: CatalogConsistencyChecker;
+  dialogs: DialogManager;
+  locatorAuditor: LocatorAuditor;
+  failOnLocatorFallback: boolean;
+  locatorTelemetry: boolean;
+  artifacts: ArtifactStore;
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+  testLog: void;
+};
+
+/** Options that can be set from `use` in playwright.config.ts (defineConfig<DemoblazeOptions>) */
+export type DemoblazeOptions = Pick<DemoblazeFixtures, 'logLevel' | 'logFormat' | 'failOnLocatorFallback' | 'locatorTelemetry' | 'authenticated'>;
+
+type DemoblazeWorkerFixtures = {
+  mockApiServer: DemoblazeMockServer | null;
+  storefrontServer: StorefrontServer | null;
+  apiBaseUrl: string;
+  apiRequest: APIRequestContext;
+  authSession: AuthSession;
 };
 
-export const test = base.extend<DemoblazeFixtures>({
-  locators: async ({ page }, use) => {
-    const locators = new DemoblazeLocators(page);
+function createAuthSession(
+  client: DemoblazeApiClient,
+  storefrontServer: StorefrontServer | null,
+  storageStatePath: string,
+  uniqueCredentials: typeof buildUniqueCredentials = buildUniqueCredentials
+): AuthSession {
+  const existing = process.env.AUTH_USERNAME && process.env.AUTH_PASSWORD
+    ? { username: process.env.AUTH_USERNAME, password: process.env.AUTH_PASSWORD }
+    : null;
+  return new AuthSession(client, {
+    credentials: existing ?? uniqueCredentials(),
+    register: !existing,
+    storefrontUrl: storefrontServer?.homeUrl ?? (process.env.BASE_URL || DEFAULT_STOREFRONT_URL),
+    storageStatePath,
+  });
+}
+
+export const test = base.extend<DemoblazeFixtures, DemoblazeWorkerFixtures>({
+  baseURL: async ({ baseURL, storefrontServer }, use) => {
+    await use(storefrontServer?.homeUrl ?? baseURL);
+  },
+
+  // API_BASE_URL=local (or BASE_URL=local) starts an in-process API stand-in per worker (offline, deterministic)
+  mockApiServer: [async ({}, use) => {
+    if (process.env.API_BASE_URL !== 'local' && process.env.BASE_URL !== 'local') {
+      await use(null);
+      return;
+    }
+    const server = new DemoblazeMockServer();
+    await server.start();
+    await use(server);
+    await server.stop();
+  }, { scope: 'worker' }],
+
+  apiBaseUrl: [async ({ mockApiServer }, use) => {
+    await use(mockApiServer?.url ?? (process.env.API_BASE_URL || 'https://api.demoblaze.com'));
+  }, { scope: 'worker' }],
+
+  // BASE_URL=local serves the offline storefront replica on a random port, backed by the API stand-in
+  storefrontServer: [async ({ mockApiServer }, use) => {
+    if (process.env.BASE_URL !== 'local' || !mockApiServer) {
+      await use(null);
+      return;
+    }
+    const server = new StorefrontServer(mockApiServer.url);
+    await server.start();
+    await use(server);
+    await server.stop();
+  }, { scope: 'worker' }],
+
+  // One browserless request context per worker: shared cookie jar, headers and timeouts
+  apiRequest: [async ({ apiBaseUrl }, use) => {
+    const request = await BaseApiClient.createRequestContext({
+      baseUrl: apiBaseUrl,
+      ...(process.env.API_TIMEOUT ? { timeoutMs: Number(process.env.API_TIMEOUT) } : {}),
+    });
+    await use(request);
+    await request.dispose();
+  }, { scope: 'worker' }],
+
+  // NETWORK_MODE=record|replay: one HAR per test covering browser and apiClient traffic
+  harStore: async ({ testLog: _testLog }, use, testInfo) => {
+    const mode = HarStore.resolveMode();
+    if (mode === 'live') {
+      await use(null);
+      return;
+    }
+    const store = new HarStore(mode, HarStore.pathFor(testInfo));
+    await use(store);
+    await store.save();
+    if (store.unmatched.length > 0) {
+      await testInfo.attach('har-unmatched.json', {
+        body: JSON.stringify(store.unmatched, null, 2),
+        contentType: 'application/json'
+      });
+    }
+    expect.soft(store.blockingUnmatched, `Requests missing from ${store.harPath}`).toEqual([]);
+  },
+
+  context: async ({ context, harStore }, use) => {
+    await harStore?.attachTo(context);
+    await use(context);
+  },
+
+  // Declared per test/describe: test.use({ networkScenario: 'emptyCatalog' })
+  networkScenario: [null, { option: true }],
+  networkTimeoutHoldMs: [DEFAULT_TIMEOUT_HOLD_MS, { option: true }],
+
+  network: async ({ page, apiBaseUrl, networkScenario, networkTimeoutHoldMs, testLog: _testLog }, use) => {
+    const network = new NetworkController(page, apiBaseUrl, { timeoutHoldMs: networkTimeoutHoldMs });
+    if (networkScenario) {
+      await network.apply(...[networkScenario].flat());
+    }
+    await use(network);
+    await network.clear();
+  },
+
+  // AUTH_USERNAME/AUTH_PASSWORD log in an existing account; otherwise a unique user is registered per worker
+  authSession: [async ({ apiRequest, apiBaseUrl, storefrontServer }, use, workerInfo) => {
+    const session = createAuthSession(
+      new DemoblazeApiClient(apiRequest, apiBaseUrl),
+      storefrontServer,
+      path.join('.auth', `demoblaze-worker-${workerInfo.parallelIndex}.json`)
+    );
+    await use(session);
+  }, { scope: 'worker' }],
+
+  // Declared per test/describe: test.use({ authenticated: true }) starts the browser logged in
+  authenticated: [false, { option: true }],
+
+  storageState: async ({ storageState, authenticatedUser }, use) => {
+    await use(authenticatedUser?.storageStatePath ?? storageState);
+  },
+
+  // NETWORK_MODE=record|replay signs in per test through the test's HAR, so every HAR holds its own signup/login
+  authenticatedUser: async ({ authenticated, authSession, harStore, apiRequest, apiBaseUrl, storefrontServer }, use, testInfo) => {
+    if (!authenticated) {
+      await use(null);
+      return;
+    }
+    if (!harStore) {
+      await use(await authSession.getUser());
+      return;
+    }
+    const client = new DemoblazeApiClient(apiRequest, apiBaseUrl);
+    client.useHar(harStore);
+    const session = createAuthSession(client, storefrontServer, testInfo.outputPath('auth-storage-state.json'),
+      () => harStore.recordedValue('authSession.credentials', buildUniqueCredentials));
+    await use(await session.getUser());
+  },
+
+  // FAIL_ON_LOCATOR_FALLBACK=true (or test.use({ failOnLocatorFallback: true })) fails tests whose accessible locators fell back to CSS
+  failOnLocatorFallback: [process.env.FAIL_ON_LOCATOR_FALLBACK === 'true', { option: true }],
+
+  // LOCATOR_TELEMETRY=true records which branch every withFallback() locator resolved (implied by failOnLocatorFallback)
+  locatorTelemetry: [process.env.LOCATOR_TELEMETRY === 'true', { option: true }],
+
+  locators: async ({ page, failOnLocatorFallback, locatorTelemetry, testLog: _testLog }, use, testInfo) => {
+    const locators = new DemoblazeLocators(page, { telemetry: locatorTelemetry || failOnLocatorFallback });
     await use(locators);
+    await locators.telemetry.attach(testInfo);
+    if (failOnLocatorFallback) {
+      locators.telemetry.expectNoFallbacks();
+    }
+  },
+
+  // Sole dialog handler for the page: records and answers every dialog; unclaimed ones fail the test
+  dialogs: async ({ page, testLog: _testLog }, use, testInfo) => {
+    const dialogs = new DialogManager(page);
+    await use(dialogs);
+    dialogs.dispose();
+    if (dialogs.records.length > 0) {
+      await testInfo.attach('dialogs.json', {
+        body: JSON.stringify(dialogs.records, null, 2),
+        contentType: 'application/json'
+      });
+    }
+    dialogs.expectNoUnexpectedDialogs();
   },
 
-  demoblazeHomePage: async ({ page, locators }, use) => {
-    const homePage = new DemoblazeHomePage(page, locators);
-    const baseUrl = process.env.BASE_URL || 'https://www.demoblaze.com/index.html';
-    await page.goto(baseUrl, { waitUntil: 'domcontentloaded' });
+  // Depends on network so scenarios are routed before the first catalog request
+  demoblazeHomePage: async ({ page, locators, dialogs, baseURL, authenticated, network: _network }, use) => {
+    const homePage = new DemoblazeHomePage(page, locators, dialogs);
+    await page.goto(baseURL || DEFAULT_STOREFRONT_URL, { waitUntil: 'domcontentloaded' });
+    if (authenticated) {
+      // The storefront validates the token cookie asynchronously before showing "Welcome <user>"
+      await locators.auth.welcomeUser.waitFor({ state: 'visible' });
+    }
     await use(homePage);
   },
 
-  demoblazeProductPage: async ({ page, locators }, use) => {
-    const productPage = new DemoblazeProductPage(page, locators);
+  demoblazeProductPage: async ({ page, locators, dialogs }, use) => {
+    const productPage = new DemoblazeProductPage(page, locators, dialogs);
     await use(productPage);
   },
 
-  demoblazeCartPage: async ({ page, locators }, use) => {
-    const cartPage = new DemoblazeCartPage(page, locators);
+  demoblazeCartPage: async ({ page, locators, dialogs }, use) => {
+    const cartPage = new DemoblazeCartPage(page, locators, dialogs);
     await use(cartPage);
   },
 
-  a11yAudit: async ({ page }, use) => {
-    const audit = new AccessibilityAudit(page, 'a11y-results');
+  demoblazeAuthPage: async ({ page, locators, dialogs }, use) => {
+    const authPage = new DemoblazeAuthPage(page, locators, dialogs);
+    await use(authPage);
+  },
+
+  // Per-test artifact files under testInfo.outputPath(), attached to the report (see ArtifactIndexReporter)
+  artifacts: async ({}, use, testInfo) => {
+    await use(ArtifactStore.for(testInfo));
+  },
+
+  a11yAudit: async ({ page, artifacts }, use) => {
+    const audit = new AccessibilityAudit(page, artifacts.dir('a11y'));
     await use(audit);
-    await audit.exportResults();
+    await artifacts.attach('a11y', await audit.exportResults(), 'application/json');
   },
 
-  apiClient: async ({}, use) => {
-    const API_BASE_URL = process.env.API_BASE_URL || 'https://api.demoblaze.com';
-    const client = new DemoblazeApiClient(API_BASE_URL);
+  apiClient: async ({ apiRequest, apiBaseUrl, harStore }, use) => {
+    const client = new DemoblazeApiClient(apiRequest, apiBaseUrl);
+    client.useHar(harStore);
     await use(client);
   },
 
-  logger: async ({}, use, testInfo) => {
+  // Seeds the browser's own cart (guest cookie or authenticated user) via the API; emptied on teardown
+  cartSeeder: async ({ apiClient, context, demoblazeCartPage, baseURL, authenticatedUser, testLog: _testLog }, use) => {
+    const seeder = new CartSeeder(apiClient, context, demoblazeCartPage, baseURL || DEFAULT_STOREFRONT_URL, authenticatedUser);
+    await use(seeder);
+    await seeder.reset();
+  },
+
+  locatorAuditor: async ({ locators }, use) => {
+    await use(new LocatorAuditor(locators));
+  },
+
+  // Compares API catalog data with what the home and product pages render
+  catalogConsistency: async ({ apiClient, demoblazeHomePage, demoblazeProductPage }, use) => {
+    await use(new CatalogConsistencyChecker(apiClient, demoblazeHomePage, demoblazeProductPage));
+  },
+
+  mockApi: async ({ mockApiServer, testLog: _testLog }, use) => {
+    await use(mockApiServer);
+    mockApiServer?.clearFaults();
+  },
+
+  // Configurable via LOG_LEVEL/LOG_FORMAT, test.use() or `use` in playwright.config.ts
+  logLevel: [TestLogger.resolveLevel(process.env.LOG_LEVEL), { option: true }],
+  logFormat: [process.env.LOG_FORMAT === 'json' ? 'json' : 'text', { option: true }],
+
+  // Correlates every TestLogger entry with this test and attaches them as test-log.jsonl. Fixtures that log
+  // while tearing down depend on it, so it tears down after them; the worker's level and format are restored
+  testLog: [async ({ logLevel, logFormat, artifacts }, use, testInfo) => {
+    const workerDefaults = { level: TestLogger.level, format: TestLogger.format };
+    TestLogger.configure({ level: logLevel, format: logFormat });
+    TestLogger.beginTest({
+      testId: testInfo.testId,
+      test: testInfo.titlePath.slice(1).join(' > '),
+      worker: testInfo.workerIndex,
+      project: testInfo.project.name,
+    });
+    await use();
+    const entries = TestLogger.endTest();
+    TestLogger.configure(workerDefaults);
+    if (entries.length > 0) {
+      await artifacts.save('logs', 'test-log.jsonl', TestLogger.toJsonLines(entries), 'application/x-ndjson');
+    }
+  }, { auto: true }],
+
+  logger: async ({ testLog: _testLog }, use, testInfo) => {
     const logger = new TestLogger(testInfo.title);
     await use(logger);
   },
 });
 
+/**
+ * Location of the spec line calling logStep (frames: Error, callerLocation, logStep, caller)
+ */
+function callerLocation(): Location | undefined {
+  const frame = new Error().stack?.split('\n')[3];
+  const match = frame?.match(/\(?([^\s()]+):(\d+):(\d+)\)?$/);
+  return match ? { file: match[1]!, line: Number(match[2]), column: Number(match[3]) } : undefined;
+}
+
+/**
+ * test.step whose body runs inside TestLogger.withStep, so every entry logged in it carries the step title.
+ * The caller's location is passed on so reports point at the spec rather than this helper.
+ */
+export function logStep<T>(title: string, body: (step: TestStepInfo) => T | Promise<T>, options: { box?: boolean, timeout?: number } = {}): Promise<T> {
+  const location = callerLocation();
+  return test.step(title, (step) => TestLogger.withStep(title, () => body(step)), { ...options, ...(location ? { location } : {}) });
+}
+
 export { expect } from '@playwright/test';
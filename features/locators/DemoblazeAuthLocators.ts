@@ -0,0 +1,39 @@
+import { Page, Locator } from '@playwright/test';
+import { withFallback } from '../utils/LocatorTelemetry';
+
+/**
+ * Sign-up, logout and logged-in state locators (login modal lives in DemoblazeHomeLocators).
+ */
+export class DemoblazeAuthLocators {
+  readonly page: Page;
+
+  // NAVIGATION
+  readonly signupLink: Locator;
+  readonly logoutLink: Locator;
+  readonly welcomeUser: Locator;
+
+  // SIGN-UP MODAL
+  readonly signupModal: Locator;
+  readonly signupUsername: Locator;
+  readonly signupPassword: Locator;
+  readonly signupButton: Locator;
+  readonly signupModalClose: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+
+    // NAVIGATION
+    this.signupLink = page.getByRole('link', { name: 'Sign up', exact: true });
+    this.logoutLink = page.getByRole('link', { name: 'Log out', exact: true });
+    this.welcomeUser = page.locator('#nameofuser');
+
+    // SIGN-UP MODAL
+    this.signupModal = page.locator('#signInModal');
+    this.signupUsername = withFallback(this.signupModal.getByLabel('Username'), page.locator('#sign-username'));
+    this.signupPassword = withFallback(this.signupModal.getByLabel('Password'), page.locator('#sign-password'));
+    this.signupButton = this.signupModal.getByRole('button', { name: 'Sign up', exact: true });
+    this.signupModalClose = page.locator('#signInModal .close');
+  }
+}
+
+export default DemoblazeAuthLocators;
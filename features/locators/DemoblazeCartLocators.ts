@@ -1,4 +1,5 @@
 import { Page, Locator } from '@playwright/test';
+import { withFallback } from '../utils/LocatorTelemetry';
 
 /**
  * Cart and checkout locators.
@@ -11,6 +12,7 @@ export class DemoblazeCartLocators {
 
   // CART
   readonly cartItems: Locator;
+  readonly cartLineImages: Locator;
   readonly cartTable: Locator;
   readonly totalPrice: Locator;
   readonly deleteButtons: Locator;
@@ -30,6 +32,7 @@ export class DemoblazeCartLocators {
   // ALERTS & MESSAGES
   readonly alertBox: Locator;
   readonly successMessage: Locator;
+  readonly confirmationDetails: Locator;
 
   constructor(page: Page) {
     this.page = page;
@@ -38,26 +41,29 @@ export class DemoblazeCartLocators {
     this.homeLink = page.locator('#nbarBrand');
 
     // CART
-    this.cartItems = page.locator('tr');
+    // Line items only: the header row lives in <thead>, lines render into #tbodyid
+    this.cartItems = page.locator('#tbodyid > tr');
+    this.cartLineImages = page.locator('#tbodyid > tr img');
     this.cartTable = page.locator('table');
-    this.totalPrice = page.locator('h3 strong');
-    this.deleteButtons = page.getByRole('button', { name: /Delete/i });
+    this.totalPrice = page.locator('#totalp');
+    this.deleteButtons = page.getByRole('link', { name: 'Delete', exact: true });
     this.placeOrderButton = page.getByRole('button', { name: /Place Order/i });
 
     // ORDER MODAL
     this.orderModal = page.locator('#orderModal');
-    this.orderName = page.getByLabel(/Name/i).or(page.locator('#name'));
-    this.orderCountry = page.getByLabel(/Country/i).or(page.locator('#country'));
-    this.orderCity = page.getByLabel(/City/i).or(page.locator('#city'));
-    this.orderCreditCard = page.getByLabel(/Credit card/i).or(page.locator('#card'));
-    this.orderMonth = page.getByLabel(/Month/i).or(page.locator('#month'));
-    this.orderYear = page.getByLabel(/Year/i).or(page.locator('#year'));
+    this.orderName = withFallback(page.getByLabel(/Name/i), page.locator('#name'));
+    this.orderCountry = withFallback(page.getByLabel(/Country/i), page.locator('#country'));
+    this.orderCity = withFallback(page.getByLabel(/City/i), page.locator('#city'));
+    this.orderCreditCard = withFallback(page.getByLabel(/Credit card/i), page.locator('#card'));
+    this.orderMonth = withFallback(page.getByLabel(/Month/i), page.locator('#month'));
+    this.orderYear = withFallback(page.getByLabel(/Year/i), page.locator('#year'));
     this.purchaseButton = page.getByRole('button', { name: /Purchase/i });
     this.orderModalClose = page.locator('#orderModal .close');
 
     // ALERTS & MESSAGES
     this.alertBox = page.locator('.sweet-alert');
     this.successMessage = page.locator('.sweet-alert');
+    this.confirmationDetails = page.locator('.sweet-alert p.lead');
   }
 }
 
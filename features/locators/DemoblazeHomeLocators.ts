@@ -1,4 +1,5 @@
 import { Page, Locator } from '@playwright/test';
+import { withFallback } from '../utils/LocatorTelemetry';
 
 /**
  * Home and listing page locators.
@@ -16,6 +17,13 @@ export class DemoblazeHomeLocators {
   // PRODUCT LISTING
   readonly productItems: Locator;
   readonly productTitles: Locator;
+  readonly productCards: Locator;
+  readonly productCardImages: Locator;
+  readonly carousel: Locator;
+
+  // PAGINATION
+  readonly nextPageButton: Locator;
+  readonly previousPageButton: Locator;
 
   // LOGIN MODAL
   readonly loginLink: Locator;
@@ -34,6 +42,11 @@ export class DemoblazeHomeLocators {
   readonly contactSendButton: Locator;
   readonly contactModalClose: Locator;
 
+  // ABOUT US MODAL
+  readonly aboutUsLink: Locator;
+  readonly aboutUsModal: Locator;
+  readonly aboutUsModalClose: Locator;
+
   // PRODUCT DETAIL (used by HomePage workflows)
   readonly addToCartButton: Locator;
 
@@ -53,24 +66,36 @@ export class DemoblazeHomeLocators {
     // PRODUCT LISTING
     this.productItems = page.locator('.hrefch');
     this.productTitles = page.locator('.card-title');
+    this.productCards = page.locator('#tbodyid .card');
+    this.productCardImages = page.locator('#tbodyid .card-img-top');
+    this.carousel = page.locator('#contcar');
+
+    // PAGINATION
+    this.nextPageButton = page.locator('#next2');
+    this.previousPageButton = page.locator('#prev2');
 
     // LOGIN MODAL
-    this.loginLink = page.getByRole('link', { name: /Login/i });
+    this.loginLink = page.getByRole('link', { name: 'Log in', exact: true });
     this.loginModal = page.locator('#logInModal');
-    this.loginUsername = page.getByLabel('Username').or(page.locator('#loginusername'));
-    this.loginPassword = page.getByLabel('Password').or(page.locator('#loginpassword'));
+    this.loginUsername = withFallback(page.getByLabel('Username'), page.locator('#loginusername'));
+    this.loginPassword = withFallback(page.getByLabel('Password'), page.locator('#loginpassword'));
     this.loginButton = page.getByRole('button', { name: /Log in/i });
     this.loginModalClose = page.locator('#logInModal .close');
 
     // CONTACT MODAL
     this.contactLink = page.getByRole('link', { name: /Contact/i });
     this.contactModal = page.locator('#exampleModal');
-    this.contactEmail = page.getByLabel('Recipient email').or(page.locator('#recipient-email'));
-    this.contactName = page.getByLabel('Recipient name').or(page.locator('#recipient-name'));
-    this.contactMessage = page.getByLabel('Message').or(page.locator('#message-text'));
+    this.contactEmail = withFallback(page.getByLabel('Recipient email'), page.locator('#recipient-email'));
+    this.contactName = withFallback(page.getByLabel('Recipient name'), page.locator('#recipient-name'));
+    this.contactMessage = withFallback(page.getByLabel('Message:', { exact: true }), page.locator('#message-text'));
     this.contactSendButton = page.getByRole('button', { name: /Send message/i });
     this.contactModalClose = page.locator('#exampleModal .close');
 
+    // ABOUT US MODAL
+    this.aboutUsLink = page.getByRole('link', { name: 'About us', exact: true });
+    this.aboutUsModal = page.locator('#videoModal');
+    this.aboutUsModalClose = page.locator('#videoModal .close');
+
     // PRODUCT DETAIL (workflow from home to product)
     this.addToCartButton = page.getByRole('link', { name: 'Add to cart' });
 
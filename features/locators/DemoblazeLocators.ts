@@ -2,23 +2,38 @@ import { Page } from '@playwright/test';
 import { DemoblazeHomeLocators } from './DemoblazeHomeLocators';
 import { DemoblazeProductLocators } from './DemoblazeProductLocators';
 import { DemoblazeCartLocators } from './DemoblazeCartLocators';
+import { DemoblazeAuthLocators } from './DemoblazeAuthLocators';
+import { LocatorTelemetry } from '../utils/LocatorTelemetry';
 
 /**
  * Locator facade for page-specific locators.
+ * With telemetry on, withFallback() locators are instrumented before flattening, so it sees which branch resolved.
  */
 export class DemoblazeLocators {
   readonly page: Page;
   readonly home: DemoblazeHomeLocators;
   readonly product: DemoblazeProductLocators;
   readonly cart: DemoblazeCartLocators;
+  readonly auth: DemoblazeAuthLocators;
+  readonly telemetry: LocatorTelemetry;
 
-  constructor(page: Page) {
+  /**
+   * @param options.telemetry - Record which branch of every withFallback() locator resolved (default: off)
+   */
+  constructor(page: Page, options: { telemetry?: boolean } = {}) {
     this.page = page;
     this.home = new DemoblazeHomeLocators(page);
     this.product = new DemoblazeProductLocators(page);
     this.cart = new DemoblazeCartLocators(page);
+    this.auth = new DemoblazeAuthLocators(page);
 
-    Object.assign(this, this.home, this.product, this.cart);
+    this.telemetry = new LocatorTelemetry(page, options.telemetry ?? false);
+    this.telemetry.instrument('home', this.home);
+    this.telemetry.instrument('product', this.product);
+    this.telemetry.instrument('cart', this.cart);
+    this.telemetry.instrument('auth', this.auth);
+
+    Object.assign(this, this.home, this.product, this.cart, this.auth);
   }
 }
 
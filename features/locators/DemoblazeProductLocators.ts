@@ -1,4 +1,5 @@
 import { Page, Locator } from '@playwright/test';
+import { withFallback } from '../utils/LocatorTelemetry';
 
 /**
  * Product detail page locators.
@@ -9,6 +10,7 @@ export class DemoblazeProductLocators {
   readonly productTitle: Locator;
   readonly productPrice: Locator;
   readonly productDescription: Locator;
+  readonly productImage: Locator;
   readonly addToCartButton: Locator;
   readonly homeLink: Locator;
   readonly cartLink: Locator;
@@ -16,9 +18,10 @@ export class DemoblazeProductLocators {
   constructor(page: Page) {
     this.page = page;
 
-    this.productTitle = page.getByRole('heading', { level: 2 }).or(page.locator('h2'));
-    this.productPrice = page.locator('.price');
-    this.productDescription = page.locator('.product-description');
+    this.productTitle = withFallback(page.getByRole('heading', { level: 2 }), page.locator('h2'));
+    this.productPrice = page.locator('.price-container');
+    this.productDescription = page.locator('#more-information p');
+    this.productImage = page.locator('.item.active img');
     this.addToCartButton = page.getByRole('link', { name: 'Add to cart' });
     this.homeLink = page.locator('#nbarBrand');
     this.cartLink = page.getByRole('link', { name: 'Cart', exact: true });
@@ -0,0 +1,276 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { Product, CartItem } from '../clients/ApiTypes';
+import { ApiConstants } from '../clients/ApiConstants';
+import { TestLogger } from '../utils/TestLogger';
+import { mockCatalog } from './mockCatalog';
+
+/**
+ * DemoblazeMockServer - In-process stand-in for api.demoblaze.com
+ *
+ * Serves the Demoblaze endpoints from seedable catalog data with in-memory users and carts,
+ * so the API layer can run offline and deterministically (API_BASE_URL=local).
+ * Faults can be injected per path to exercise error handling.
+ */
+
+export interface MockSeed {
+  products?: readonly Product[];
+  /** Users as stored by the API: password is the base64 string the storefront sends */
+  users?: readonly { username: string; password: string }[];
+  pageSize?: number;
+}
+
+export interface MockFault {
+  /** Endpoint path to intercept, e.g. '/addtocart' */
+  path: string;
+  status?: number;
+  /** Raw response body (sent as-is, so malformed JSON is possible) */
+  body?: string;
+  delayMs?: number;
+  /** Destroy the socket without answering */
+  dropConnection?: boolean;
+  /** Number of requests to affect; unlimited when omitted */
+  times?: number;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  body: unknown;
+  timestamp: string;
+}
+
+type RouteHandler = (body: Record<string, unknown>) => { status: number; payload: unknown };
+
+export class DemoblazeMockServer {
+  static readonly DEFAULT_PAGE_SIZE = 9;
+
+  private server: http.Server | null = null;
+  private products: Product[] = [];
+  private users = new Map<string, string>();
+  private tokens = new Map<string, string>();
+  private cartItems: (CartItem & { owner: string })[] = [];
+  private faults: (MockFault & { remaining: number })[] = [];
+  private pageSize = DemoblazeMockServer.DEFAULT_PAGE_SIZE;
+  private logger = new TestLogger('DemoblazeMockServer');
+
+  readonly requests: MockRequestRecord[] = [];
+
+  constructor(seed: MockSeed = {}) {
+    this.reset(seed);
+  }
+
+  get url(): string {
+    if (!this.server) throw new Error('DemoblazeMockServer is not running');
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(port = 0): Promise<string> {
+    if (this.server) return this.url;
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => this.fail(res, error));
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.logger.debug(`Listening on ${this.url}`);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Restore seed data and clear users, carts, faults and the request log.
+   */
+  reset(seed: MockSeed = {}): void {
+    this.products = [...(seed.products ?? mockCatalog)].map((product) => ({ ...product }));
+    this.users = new Map((seed.users ?? []).map((user) => [user.username, user.password]));
+    this.tokens.clear();
+    this.cartItems = [];
+    this.faults = [];
+    this.requests.length = 0;
+    this.pageSize = seed.pageSize ?? DemoblazeMockServer.DEFAULT_PAGE_SIZE;
+  }
+
+  // =========================================================================
+  // ERROR INJECTION
+  // =========================================================================
+
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? Number.POSITIVE_INFINITY });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  // =========================================================================
+  // STATE INSPECTION
+  // =========================================================================
+
+  getCart(owner: string): CartItem[] {
+    return this.cartItems
+      .filter((item) => item.owner === owner || item.cookie === owner)
+      .map(({ id, cookie, prod_id }) => ({ id, cookie, prod_id }));
+  }
+
+  hasUser(username: string): boolean {
+    return this.users.has(username);
+  }
+
+  // =========================================================================
+  // REQUEST HANDLING
+  // =========================================================================
+
+  private readonly routes: Record<string, RouteHandler> = {
+    [ApiConstants.paths.entries]: () => this.page(0),
+    [ApiConstants.paths.pagination]: (body) => this.page(Number(body.id ?? 0)),
+    [ApiConstants.paths.view]: (body) => {
+      const product = this.products.find((p) => String(p.id) === String(body.id));
+      return product ? { status: 200, payload: product } : { status: 200, payload: {} };
+    },
+    [ApiConstants.paths.byCategory]: (body) => ({
+      status: 200,
+      payload: { Items: this.products.filter((p) => p.cat === body.cat) },
+    }),
+    [ApiConstants.paths.signup]: (body) => {
+      const username = String(body.username ?? '');
+      if (!username || this.users.has(username)) {
+        return { status: 200, payload: { errorMessage: 'This user already exist.' } };
+      }
+      this.users.set(username, String(body.password ?? ''));
+      return { status: 200, payload: '' };
+    },
+    [ApiConstants.paths.login]: (body) => {
+      const username = String(body.username ?? '');
+      const stored = this.users.get(username);
+      if (stored === undefined) return { status: 200, payload: { errorMessage: 'User does not exist.' } };
+      if (stored !== String(body.password ?? '')) return { status: 200, payload: { errorMessage: 'Wrong password.' } };
+      const token = Buffer.from(`${username}${randomBytes(4).readUInt32BE()}`).toString('base64');
+      this.tokens.set(token, username);
+      return { status: 200, payload: `${ApiConstants.auth.tokenPrefix}${token}` };
+    },
+    '/check': (body) => {
+      const username = this.tokens.get(String(body.token ?? ''));
+      return username
+        ? { status: 200, payload: { Item: { token: body.token, username } } }
+        : { status: 200, payload: { errorMessage: 'Token does not exist.' } };
+    },
+    [ApiConstants.paths.addToCart]: (body) => {
+      const cookie = String(body.cookie ?? '');
+      const owner = this.resolveOwner(cookie, body.flag === true);
+      this.cartItems.push({ id: String(body.id ?? randomBytes(8).toString('hex')), cookie: owner, prod_id: Number(body.prod_id), owner });
+      return { status: 200, payload: '' };
+    },
+    [ApiConstants.paths.viewCart]: (body) => {
+      const owner = this.resolveOwner(String(body.cookie ?? ''), body.flag === true);
+      return { status: 200, payload: { Items: this.getCart(owner) } };
+    },
+    [ApiConstants.paths.deleteItem]: (body) => {
+      this.cartItems = this.cartItems.filter((item) => item.id !== String(body.id));
+      return { status: 200, payload: 'Item deleted.' };
+    },
+    [ApiConstants.paths.deleteCart]: (body) => {
+      const cookie = String(body.cookie ?? '');
+      const owner = this.tokens.get(cookie) ?? cookie;
+      this.cartItems = this.cartItems.filter((item) => item.owner !== owner);
+      return { status: 200, payload: 'Item deleted.' };
+    },
+  };
+
+  /** Logged-in carts are keyed by username (token resolved), guest carts by the user cookie. */
+  private resolveOwner(cookie: string, flag: boolean): string {
+    return flag ? this.tokens.get(cookie) ?? cookie : cookie;
+  }
+
+  private page(afterId: number): { status: number; payload: unknown } {
+    const remaining = this.products.filter((p) => p.id > afterId).sort((a, b) => a.id - b.id);
+    const items = remaining.slice(0, this.pageSize);
+    const hasMore = remaining.length > this.pageSize;
+    const last = items[items.length - 1];
+    return {
+      status: 200,
+      payload: hasMore && last ? { Items: items, LastEvaluatedKey: { id: String(last.id) } } : { Items: items },
+    };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://127.0.0.1').pathname;
+    const rawBody = await this.readBody(req);
+    let body: Record<string, unknown> = {};
+    try {
+      const parsed: unknown = rawBody ? JSON.parse(rawBody) : {};
+      // Routes read fields off an object: null, arrays and primitives count as an empty body
+      body = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+    } catch {
+      body = {};
+    }
+    this.requests.push({ method: req.method ?? 'GET', path, body, timestamp: new Date().toISOString() });
+
+    const fault = this.faults.find((f) => f.path === path && f.remaining > 0);
+    if (fault) {
+      fault.remaining--;
+      if (fault.delayMs) await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+      if (fault.dropConnection) {
+        req.socket.destroy();
+        return;
+      }
+      if (fault.status !== undefined || fault.body !== undefined) {
+        res.writeHead(fault.status ?? 200, { 'Content-Type': ApiConstants.headers.jsonContentType });
+        res.end(fault.body ?? JSON.stringify({ errorMessage: 'Injected fault' }));
+        return;
+      }
+    }
+
+    const route = this.routes[path];
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': ApiConstants.headers.jsonContentType });
+      res.end(JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+
+    const { status, payload } = route(body);
+    res.writeHead(status, { 'Content-Type': ApiConstants.headers.jsonContentType });
+    res.end(JSON.stringify(payload));
+  }
+
+  /**
+   * Answer 500 when a handler throws, so the client gets a response instead of hanging
+   */
+  private fail(res: http.ServerResponse, error: unknown): void {
+    this.logger.error(`Handler failed: ${error instanceof Error ? error.message : String(error)}`);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(500, { 'Content-Type': ApiConstants.headers.jsonContentType });
+    res.end(JSON.stringify({ errorMessage: 'Internal Server Error' }));
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
+
+export default DemoblazeMockServer;
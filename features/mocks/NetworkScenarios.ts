@@ -0,0 +1,190 @@
+import { Page, Route, Request } from '@playwright/test';
+import { ApiConstants } from '../clients/ApiConstants';
+import { TestLogger } from '../utils/TestLogger';
+import { WaitHelper } from '../utils/WaitHelper';
+
+/**
+ * NetworkScenarios - Named page.route presets for degraded API behaviour
+ *
+ * Only browser traffic to the API origin is intercepted; apiClient calls are unaffected.
+ * Select per test with `test.use({ networkScenario: 'emptyCatalog' })` or call network.apply().
+ */
+
+export type NetworkScenarioName =
+  | 'slowCatalog'
+  | 'emptyCatalog'
+  | 'malformedCatalog'
+  | 'addToCartServerError'
+  | 'viewTimeout'
+  | 'cartServiceDown'
+  | 'apiOffline';
+
+interface NetworkRule {
+  /** API paths the rule applies to; '*' matches every API request */
+  paths: readonly string[];
+  handle(route: Route, settings: NetworkSettings): Promise<void>;
+}
+
+interface NetworkScenario {
+  description: string;
+  rules: readonly NetworkRule[];
+}
+
+export interface NetworkSettings {
+  /** How long viewTimeout holds /view before aborting it as timed out */
+  timeoutHoldMs: number;
+}
+
+export interface NetworkHit {
+  scenario: NetworkScenarioName;
+  path: string;
+  url: string;
+  timestamp: string;
+}
+
+const CATALOG_PATHS = [ApiConstants.paths.entries, ApiConstants.paths.byCategory, ApiConstants.paths.pagination] as const;
+const SLOW_RESPONSE_MS = 3000;
+export const DEFAULT_TIMEOUT_HOLD_MS = 10000;
+
+const json = (status: number, body: unknown) => async (route: Route) => {
+  await route.fulfill({ status, contentType: ApiConstants.headers.jsonContentType, body: JSON.stringify(body) });
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const NETWORK_SCENARIOS: Record<NetworkScenarioName, NetworkScenario> = {
+  slowCatalog: {
+    description: `Catalog endpoints answer after ${SLOW_RESPONSE_MS}ms`,
+    rules: [{
+      paths: CATALOG_PATHS,
+      handle: async (route) => {
+        await delay(SLOW_RESPONSE_MS);
+        await route.continue().catch(() => undefined);
+      },
+    }],
+  },
+  emptyCatalog: {
+    description: 'Catalog endpoints return no products',
+    rules: [{ paths: CATALOG_PATHS, handle: json(200, { Items: [] }) }],
+  },
+  malformedCatalog: {
+    description: '/entries returns truncated JSON',
+    rules: [{
+      paths: [ApiConstants.paths.entries],
+      handle: async (route) => {
+        await route.fulfill({ status: 200, contentType: ApiConstants.headers.jsonContentType, body: '{"Items": [{"id": 1, "title": ' });
+      },
+    }],
+  },
+  addToCartServerError: {
+    description: '/addtocart returns HTTP 500',
+    rules: [{ paths: [ApiConstants.paths.addToCart], handle: json(500, { errorMessage: 'Internal Server Error' }) }],
+  },
+  viewTimeout: {
+    description: '/view hangs, then fails with net::ERR_TIMED_OUT',
+    rules: [{
+      paths: [ApiConstants.paths.view],
+      handle: async (route, settings) => {
+        await delay(settings.timeoutHoldMs);
+        await route.abort('timedout').catch(() => undefined);
+      },
+    }],
+  },
+  cartServiceDown: {
+    description: 'Cart endpoints return HTTP 503',
+    rules: [{
+      paths: [ApiConstants.paths.viewCart, ApiConstants.paths.addToCart, ApiConstants.paths.deleteItem, ApiConstants.paths.deleteCart],
+      handle: json(503, { errorMessage: 'Service Unavailable' }),
+    }],
+  },
+  apiOffline: {
+    description: 'Every API request fails at the network level',
+    rules: [{
+      paths: ['*'],
+      handle: async (route) => {
+        await route.abort('internetdisconnected');
+      },
+    }],
+  },
+};
+
+/**
+ * Applies network scenarios to a page and records every intercepted request.
+ */
+export class NetworkController {
+  readonly hits: NetworkHit[] = [];
+  private active = new Set<NetworkScenarioName>();
+  private routeHandler: ((route: Route, request: Request) => Promise<void>) | null = null;
+  private logger = new TestLogger('NetworkController');
+  private readonly apiOrigin: string;
+  private readonly settings: NetworkSettings;
+
+  constructor(private page: Page, apiBaseUrl: string, settings: Partial<NetworkSettings> = {}) {
+    this.apiOrigin = new URL(apiBaseUrl).origin;
+    this.settings = { timeoutHoldMs: settings.timeoutHoldMs ?? DEFAULT_TIMEOUT_HOLD_MS };
+  }
+
+  get activeScenarios(): NetworkScenarioName[] {
+    return [...this.active];
+  }
+
+  async apply(...names: NetworkScenarioName[]): Promise<void> {
+    names.forEach((name) => {
+      this.active.add(name);
+      this.logger.info(`Network scenario: ${name} (${NETWORK_SCENARIOS[name].description})`);
+    });
+    await this.ensureRoute();
+  }
+
+  async clear(): Promise<void> {
+    this.active.clear();
+    if (this.routeHandler) {
+      await this.page.unroute(this.matchesApi, this.routeHandler);
+      this.routeHandler = null;
+    }
+  }
+
+  /**
+   * Wait until a scenario has intercepted a request to the given API path.
+   */
+  async waitForHit(path: string, timeoutMs: number = WaitHelper.LONG_TIMEOUT_MS): Promise<NetworkHit> {
+    // Probing the intercepted paths puts them in the timeout error when the request never comes
+    await WaitHelper.waitForValue(
+      async () => this.hits.map((hit) => hit.path),
+      (paths) => paths.includes(path),
+      timeoutMs,
+      WaitHelper.DEFAULT_POLL_INTERVAL_MS,
+      { description: `Request to ${path}` }
+    );
+    return this.hits.find((hit) => hit.path === path)!;
+  }
+
+  private matchesApi = (url: URL): boolean => url.origin === this.apiOrigin;
+
+  private async ensureRoute(): Promise<void> {
+    if (this.routeHandler) return;
+    this.routeHandler = async (route, request) => {
+      const path = new URL(request.url()).pathname;
+      const match = this.findRule(path, request.method());
+      if (!match) {
+        await route.fallback();
+        return;
+      }
+      this.hits.push({ scenario: match.scenario, path, url: request.url(), timestamp: new Date().toISOString() });
+      await match.rule.handle(route, this.settings);
+    };
+    await this.page.route(this.matchesApi, this.routeHandler);
+  }
+
+  private findRule(path: string, method: string): { scenario: NetworkScenarioName; rule: NetworkRule } | null {
+    // CORS preflights pass through so the scenario applies to the real request
+    if (method === 'OPTIONS') return null;
+    for (const scenario of this.active) {
+      const rule = NETWORK_SCENARIOS[scenario].rules.find((r) => r.paths.includes('*') || r.paths.includes(path));
+      if (rule) return { scenario, rule };
+    }
+    return null;
+  }
+}
+
+export default NetworkController;
@@ -0,0 +1,104 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { TestLogger } from '../utils/TestLogger';
+
+/**
+ * StorefrontServer - Serves the offline storefront replica (features/mocks/storefront)
+ *
+ * Pages talk to the API URL injected via /config.js, normally the DemoblazeMockServer,
+ * so UI and accessibility specs can run hermetically (BASE_URL=local).
+ */
+export class StorefrontServer {
+  static readonly ROOT_DIR = path.join(__dirname, 'storefront');
+
+  private static readonly CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'application/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+  };
+  private static readonly IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp'];
+
+  private server: http.Server | null = null;
+  private logger = new TestLogger('StorefrontServer');
+
+  constructor(private apiUrl: string, private rootDir: string = StorefrontServer.ROOT_DIR) {}
+
+  get url(): string {
+    if (!this.server) throw new Error('StorefrontServer is not running');
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** Storefront landing page (equivalent of https://www.demoblaze.com/index.html) */
+  get homeUrl(): string {
+    return `${this.url}/index.html`;
+  }
+
+  async start(port = 0): Promise<string> {
+    if (this.server) return this.url;
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.logger.debug(`Serving ${this.rootDir} on ${this.url} (API: ${this.apiUrl})`);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://127.0.0.1').pathname);
+    } catch {
+      // Malformed escapes (/%E0%A4%A) throw URIError, which would escape the server callback
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Bad Request');
+      return;
+    }
+
+    if (pathname === '/config.js') {
+      res.writeHead(200, { 'Content-Type': StorefrontServer.CONTENT_TYPES['.js']! });
+      res.end(`window.DEMOBLAZE_API_URL = ${JSON.stringify(this.apiUrl)};\n`);
+      return;
+    }
+
+    const extension = path.extname(pathname).toLowerCase();
+    if (StorefrontServer.IMAGE_EXTENSIONS.includes(extension)) {
+      res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+      res.end(this.placeholderImage(path.basename(pathname)));
+      return;
+    }
+
+    const relative = pathname === '/' ? 'index.html' : pathname.replace(/^\/+/, '');
+    const file = path.resolve(this.rootDir, relative);
+    // Separator-terminated, so a sibling directory such as <root>-x/ does not pass as inside the root
+    if (!file.startsWith(path.resolve(this.rootDir) + path.sep) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': StorefrontServer.CONTENT_TYPES[extension] ?? 'application/octet-stream' });
+    fs.createReadStream(file).pipe(res);
+  }
+
+  /** Product images are not vendored - every image request gets a labelled SVG placeholder. */
+  private placeholderImage(name: string): string {
+    const label = name.replace(/[<>&"]/g, '');
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">`
+      + `<rect width="400" height="400" fill="#e9ecef"/>`
+      + `<text x="200" y="200" font-family="Arial" font-size="20" text-anchor="middle" fill="#6c757d">${label}</text></svg>`;
+  }
+}
+
+export default StorefrontServer;
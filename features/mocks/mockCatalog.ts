@@ -0,0 +1,25 @@
+import { Product } from '../clients/ApiTypes';
+
+/**
+ * Seed catalog for the local Demoblaze API stand-in
+ * Mirrors the ids, titles, prices and categories of the live catalog.
+ */
+export const mockCatalog: readonly Product[] = [
+  { id: 1, title: 'Samsung galaxy s6', price: 360, cat: 'phone', img: 'imgs/galaxy_s6.jpg', desc: 'The Samsung Galaxy S6 is powered by 1.5GHz octa-core Samsung Exynos 7420 processor and it comes with 3GB of RAM.' },
+  { id: 2, title: 'Nokia lumia 1520', price: 820, cat: 'phone', img: 'imgs/Lumia_1520.jpg', desc: 'The Nokia Lumia 1520 is powered by 2.2GHz quad-core Qualcomm Snapdragon 800 processor and it comes with 2GB of RAM.' },
+  { id: 3, title: 'Nexus 6', price: 650, cat: 'phone', img: 'imgs/Nexus_6.jpg', desc: 'The Motorola Google Nexus 6 is powered by 2.7GHz quad-core Qualcomm Snapdragon 805 processor and it comes with 3GB of RAM.' },
+  { id: 4, title: 'Samsung galaxy s7', price: 800, cat: 'phone', img: 'imgs/galaxy_s7.jpg', desc: 'The Samsung Galaxy S7 is powered by 1.6GHz octa-core it comes with 4GB of RAM.' },
+  { id: 5, title: 'Iphone 6 32gb', price: 790, cat: 'phone', img: 'imgs/iphone_6.jpg', desc: 'It comes with 1GB of RAM. The phone packs 32GB of internal storage that cannot be expanded.' },
+  { id: 6, title: 'Sony xperia z5', price: 320, cat: 'phone', img: 'imgs/xperia_z5.jpg', desc: 'Sony Xperia Z5 Dual smartphone was launched in September 2015 with a 5.20-inch touchscreen display.' },
+  { id: 7, title: 'HTC One M9', price: 700, cat: 'phone', img: 'imgs/HTC_M9.jpg', desc: 'The HTC One M9 is powered by 1.5GHz octa-core Qualcomm Snapdragon 810 processor and it comes with 3GB of RAM.' },
+  { id: 8, title: 'Sony vaio i5', price: 790, cat: 'notebook', img: 'imgs/sony_vaio_5.jpg', desc: 'Sony is so confident that the VAIO S is a superior ultraportable laptop that the company proudly compares it to the 13-inch MacBook Pro.' },
+  { id: 9, title: 'Sony vaio i7', price: 790, cat: 'notebook', img: 'imgs/sony_vaio_5.jpg', desc: 'REVIEW Sony is so confident that the VAIO S is a superior ultraportable laptop that the company proudly compares it to the 13-inch MacBook Pro.' },
+  { id: 10, title: 'Apple monitor 24', price: 400, cat: 'monitor', img: 'imgs/apple_cinema.jpg', desc: 'LED Cinema Display features a 27-inch glossy LED-backlit TFT active-matrix LCD display with IPS technology.' },
+  { id: 11, title: 'MacBook air', price: 700, cat: 'notebook', img: 'imgs/macbook_air.jpg', desc: '1.6GHz dual-core Intel Core i5 (Turbo Boost up to 2.7GHz) with 3MB shared L3 cache.' },
+  { id: 12, title: 'Dell i7 8gb', price: 700, cat: 'notebook', img: 'imgs/dell.jpg', desc: '6th Generation Intel Core i7-6500U Dual-Core Processor 2.5 GHz (max boost speed up to 3.1GHz) 4MB L3 Cache.' },
+  { id: 13, title: '2017 Dell 15.6 Inch', price: 700, cat: 'notebook', img: 'imgs/dell_2017.jpg', desc: '7th Gen Intel Core i7-7500U mobile processor 2.70 GHz with Turbo Boost Technology up to 3.50 GHz.' },
+  { id: 14, title: 'ASUS Full HD', price: 230, cat: 'monitor', img: 'imgs/asus_full.jpg', desc: 'ASUS VS247H-P 23.6- Inch Full HD.' },
+  { id: 15, title: 'MacBook Pro', price: 1100, cat: 'notebook', img: 'imgs/macbook_pro.jpg', desc: 'Apple has introduced three new versions of its MacBook Pro line, including a 13-inch and 15-inch model with the Touch Bar.' },
+];
+
+export default mockCatalog;
@@ -0,0 +1,403 @@
+/*
+ * Offline replica of the Demoblaze storefront.
+ * Mirrors the live DOM hooks (ids, classes, labels, native alerts, sweet-alert) and talks to
+ * the API stand-in configured in config.js (window.DEMOBLAZE_API_URL).
+ */
+(function () {
+  'use strict';
+
+  var API_URL = window.DEMOBLAZE_API_URL || 'https://api.demoblaze.com';
+  var PAGE = document.body.getAttribute('data-page');
+
+  // ===========================================================================
+  // COOKIES & API
+  // ===========================================================================
+
+  function getCookie(name) {
+    var match = document.cookie.split('; ').filter(function (c) { return c.indexOf(name + '=') === 0; })[0];
+    return match ? decodeURIComponent(match.substring(name.length + 1)) : '';
+  }
+
+  function setCookie(name, value) {
+    document.cookie = name + '=' + encodeURIComponent(value) + '; path=/';
+  }
+
+  function deleteCookie(name) {
+    document.cookie = name + '=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+  }
+
+  function guid() {
+    function s4() { return Math.floor((1 + Math.random()) * 0x10000).toString(16).substring(1); }
+    return s4() + s4() + '-' + s4() + '-' + s4() + '-' + s4() + '-' + s4() + s4() + s4();
+  }
+
+  function api(path, data) {
+    return fetch(API_URL + path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data || {})
+    }).then(function (res) {
+      return res.text().then(function (text) {
+        var body;
+        try { body = text ? JSON.parse(text) : ''; } catch (e) { body = text; }
+        if (!res.ok) throw { status: res.status, body: body };
+        return body;
+      });
+    });
+  }
+
+  if (!getCookie('user')) setCookie('user', guid());
+
+  function cartOwner() {
+    var token = getCookie('tokenp_');
+    return token ? { cookie: token, flag: true } : { cookie: getCookie('user'), flag: false };
+  }
+
+  // ===========================================================================
+  // SHARED CHROME: NAVBAR + MODALS
+  // ===========================================================================
+
+  function modalMarkup(id, labelledBy, title, body, footer) {
+    return '' +
+      '<div class="modal fade" id="' + id + '" tabindex="-1" role="dialog" aria-labelledby="' + labelledBy + '" aria-hidden="true">' +
+      '  <div class="modal-dialog" role="document">' +
+      '    <div class="modal-content">' +
+      '      <div class="modal-header">' +
+      '        <h5 class="modal-title" id="' + labelledBy + '">' + title + '</h5>' +
+      '        <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>' +
+      '      </div>' +
+      '      <div class="modal-body">' + body + '</div>' +
+      '      <div class="modal-footer">' +
+      '        <button type="button" class="btn btn-secondary" data-dismiss="modal">Close</button>' + footer +
+      '      </div>' +
+      '    </div>' +
+      '  </div>' +
+      '</div>';
+  }
+
+  // Labels intentionally point at ids that do not exist (as on the live site), so
+  // accessible-name locators fall back to the CSS ids.
+  function field(labelFor, label, inputId, type) {
+    return '<div class="form-group"><label for="' + labelFor + '" class="form-control-label">' + label + '</label>' +
+      '<input type="' + (type || 'text') + '" class="form-control" id="' + inputId + '"></div>';
+  }
+
+  var chrome = '' +
+    '<nav class="navbar navbar-toggleable-md bg-inverse fixed-top" id="narvbarx">' +
+    '  <a class="navbar-brand" id="nbarBrand" href="index.html"><img src="bm.png" width="50" height="50" alt="">PRODUCT STORE</a>' +
+    '  <div class="navbar-collapse" id="navbarExample">' +
+    '    <ul class="navbar-nav ml-auto">' +
+    '      <li class="nav-item active"><a class="nav-link" href="index.html">Home <span class="sr-only">(current)</span></a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="#" data-toggle="modal" data-target="#exampleModal">Contact</a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="#" data-toggle="modal" data-target="#videoModal">About us</a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="cart.html" id="cartur">Cart</a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="#" id="login2" data-toggle="modal" data-target="#logInModal">Log in</a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="#" id="logout2" style="display: none;">Log out</a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="#" id="nameofuser" style="display: none;"></a></li>' +
+    '      <li class="nav-item"><a class="nav-link" href="#" id="signin2" data-toggle="modal" data-target="#signInModal">Sign up</a></li>' +
+    '    </ul>' +
+    '  </div>' +
+    '</nav>';
+
+  var modals = '' +
+    modalMarkup('exampleModal', 'exampleModalLabel', 'New message',
+      '<form>' + field('recipient-mail', 'Contact Email:', 'recipient-email', 'email') +
+      field('recipient-nme', 'Contact Name:', 'recipient-name') +
+      '<div class="form-group"><label for="message-txt" class="form-control-label">Message:</label>' +
+      '<textarea class="form-control" id="message-text"></textarea></div></form>',
+      '<button type="button" class="btn btn-primary" id="send-message">Send message</button>') +
+    modalMarkup('signInModal', 'signInModalLabel', 'Sign up',
+      '<form>' + field('sign-user', 'Username:', 'sign-username') + field('sign-pass', 'Password:', 'sign-password', 'password') + '</form>',
+      '<button type="button" class="btn btn-primary" id="sign-up">Sign up</button>') +
+    modalMarkup('logInModal', 'logInModalLabel', 'Log in',
+      '<form>' + field('log-name', 'Username:', 'loginusername') + field('log-pass', 'Password:', 'loginpassword', 'password') + '</form>',
+      '<button type="button" class="btn btn-primary" id="log-in">Log in</button>') +
+    modalMarkup('videoModal', 'videoModalLabel', 'About us',
+      '<div id="example-video" class="video-js"><p>Product Store is a demo e-commerce site used for test automation.</p></div>', '');
+
+  var orderModal = modalMarkup('orderModal', 'orderModalLabel', 'Place order',
+    '<form><div class="form-group"><label for="totalm" class="form-control-label" id="totalm">Total:</label></div>' +
+    field('nme', 'Name:', 'name') + field('cntry', 'Country:', 'country') + field('cty', 'City:', 'city') +
+    field('crd', 'Credit card:', 'card') + field('mnth', 'Month:', 'month') + field('yr', 'Year:', 'year') + '</form>',
+    '<button type="button" class="btn btn-primary" id="purchase">Purchase</button>');
+
+  document.body.insertAdjacentHTML('afterbegin', chrome);
+  document.body.insertAdjacentHTML('beforeend', modals + (PAGE === 'cart' ? orderModal : ''));
+
+  // ===========================================================================
+  // MODAL BEHAVIOUR (Bootstrap-compatible: X, Close, Escape, backdrop, focus restore)
+  // ===========================================================================
+
+  var openModal = null;
+  var modalTrigger = null;
+
+  function showModal(modal, trigger) {
+    if (openModal) hideModal(openModal);
+    modalTrigger = trigger || document.activeElement;
+    var backdrop = document.createElement('div');
+    backdrop.className = 'modal-backdrop fade show';
+    document.body.appendChild(backdrop);
+    document.body.classList.add('modal-open');
+    modal.style.display = 'block';
+    modal.classList.add('show');
+    modal.removeAttribute('aria-hidden');
+    modal.setAttribute('aria-modal', 'true');
+    openModal = modal;
+    modal.focus();
+    if (modal.id === 'orderModal') {
+      document.getElementById('totalm').textContent = 'Total: ' + (document.getElementById('totalp').textContent || '');
+    }
+  }
+
+  function hideModal(modal) {
+    modal.style.display = 'none';
+    modal.classList.remove('show');
+    modal.setAttribute('aria-hidden', 'true');
+    modal.removeAttribute('aria-modal');
+    document.body.classList.remove('modal-open');
+    Array.prototype.forEach.call(document.querySelectorAll('.modal-backdrop'), function (el) { el.remove(); });
+    if (openModal === modal) openModal = null;
+    if (modalTrigger && typeof modalTrigger.focus === 'function') modalTrigger.focus();
+    modalTrigger = null;
+  }
+
+  document.addEventListener('click', function (event) {
+    var toggle = event.target.closest('[data-toggle="modal"]');
+    if (toggle) {
+      event.preventDefault();
+      var target = document.querySelector(toggle.getAttribute('data-target'));
+      if (target) showModal(target, toggle);
+      return;
+    }
+    var dismiss = event.target.closest('[data-dismiss="modal"]');
+    if (dismiss && openModal) {
+      hideModal(openModal);
+      return;
+    }
+    // Click on the modal container outside the dialog = backdrop click
+    if (openModal && event.target === openModal) hideModal(openModal);
+  });
+
+  document.addEventListener('keydown', function (event) {
+    if (event.key === 'Escape' && openModal) hideModal(openModal);
+  });
+
+  // ===========================================================================
+  // AUTH
+  // ===========================================================================
+
+  function showLoggedIn(username) {
+    document.getElementById('login2').style.display = 'none';
+    document.getElementById('signin2').style.display = 'none';
+    document.getElementById('logout2').style.display = 'block';
+    var welcome = document.getElementById('nameofuser');
+    welcome.textContent = 'Welcome ' + username;
+    welcome.style.display = 'block';
+  }
+
+  function checkToken() {
+    var token = getCookie('tokenp_');
+    if (!token) return;
+    api('/check', { token: token }).then(function (body) {
+      if (body && body.Item) showLoggedIn(body.Item.username);
+    });
+  }
+
+  document.getElementById('sign-up').addEventListener('click', function () {
+    var username = document.getElementById('sign-username').value;
+    var password = document.getElementById('sign-password').value;
+    api('/signup', { username: username, password: btoa(password) }).then(function (body) {
+      if (body && body.errorMessage) {
+        alert(body.errorMessage);
+        return;
+      }
+      alert('Sign up successful.');
+      hideModal(document.getElementById('signInModal'));
+    });
+  });
+
+  document.getElementById('log-in').addEventListener('click', function () {
+    var username = document.getElementById('loginusername').value;
+    var password = document.getElementById('loginpassword').value;
+    api('/login', { username: username, password: btoa(password) }).then(function (body) {
+      if (body && body.errorMessage) {
+        alert(body.errorMessage);
+        return;
+      }
+      setCookie('tokenp_', String(body).replace('Auth_token: ', ''));
+      window.location.href = 'index.html';
+    });
+  });
+
+  document.getElementById('logout2').addEventListener('click', function (event) {
+    event.preventDefault();
+    deleteCookie('tokenp_');
+    window.location.href = 'index.html';
+  });
+
+  document.getElementById('send-message').addEventListener('click', function () {
+    alert('Thanks for the message!!');
+    hideModal(document.getElementById('exampleModal'));
+  });
+
+  // ===========================================================================
+  // HOME
+  // ===========================================================================
+
+  function renderCards(items) {
+    var html = items.map(function (p) {
+      return '' +
+        '<div class="col-lg-4 col-md-6 mb-4">' +
+        '  <div class="card h-100">' +
+        '    <a href="prod.html?idp_=' + p.id + '"><img class="card-img-top img-fluid" src="' + p.img + '" alt=""></a>' +
+        '    <div class="card-block">' +
+        '      <h4 class="card-title"><a href="prod.html?idp_=' + p.id + '" class="hrefch">' + p.title + '</a></h4>' +
+        '      <h5>$' + p.price + '</h5>' +
+        '      <p class="card-text" id="article">' + p.desc + '</p>' +
+        '    </div>' +
+        '  </div>' +
+        '</div>';
+    }).join('');
+    document.getElementById('tbodyid').innerHTML = html;
+  }
+
+  function initHome() {
+    var lastKey = null;
+    var prev = document.getElementById('prev2');
+    var next = document.getElementById('next2');
+
+    function showPage(body, isFirst) {
+      renderCards(body.Items || []);
+      lastKey = body.LastEvaluatedKey ? body.LastEvaluatedKey.id : null;
+      prev.style.display = isFirst ? 'none' : 'block';
+      next.style.display = lastKey ? 'block' : 'none';
+    }
+
+    function loadFirstPage() {
+      api('/entries').then(function (body) { showPage(body, true); });
+    }
+
+    next.addEventListener('click', function () {
+      if (!lastKey) return;
+      api('/pagination', { id: lastKey }).then(function (body) { showPage(body, false); });
+    });
+    prev.addEventListener('click', loadFirstPage);
+
+    Array.prototype.forEach.call(document.querySelectorAll('[data-cat]'), function (link) {
+      link.addEventListener('click', function (event) {
+        event.preventDefault();
+        api('/bycat', { cat: link.getAttribute('data-cat') }).then(function (body) {
+          renderCards(body.Items || []);
+          prev.style.display = 'none';
+          next.style.display = 'none';
+        });
+      });
+    });
+    document.getElementById('cat').addEventListener('click', function (event) {
+      event.preventDefault();
+      loadFirstPage();
+    });
+
+    loadFirstPage();
+  }
+
+  // ===========================================================================
+  // PRODUCT
+  // ===========================================================================
+
+  function initProduct() {
+    var id = new URLSearchParams(window.location.search).get('idp_');
+    api('/view', { id: id }).then(function (p) {
+      document.querySelector('.item.active img').setAttribute('src', p.img);
+      document.querySelector('.name').textContent = p.title;
+      document.querySelector('.price-container').innerHTML = '$' + p.price + ' <small>*includes tax</small>';
+      document.querySelector('#more-information p').textContent = p.desc;
+    });
+
+    document.getElementById('add-to-cart').addEventListener('click', function (event) {
+      event.preventDefault();
+      var owner = cartOwner();
+      api('/addtocart', { id: guid(), cookie: owner.cookie, prod_id: Number(id), flag: owner.flag })
+        .then(function () { alert('Product added.'); })
+        .catch(function () { alert('Something went wrong.'); });
+    });
+  }
+
+  // ===========================================================================
+  // CART & CHECKOUT
+  // ===========================================================================
+
+  function showCart() {
+    return api('/viewcart', cartOwner()).then(function (body) {
+      var items = body.Items || [];
+      return Promise.all(items.map(function (item) {
+        return api('/view', { id: String(item.prod_id) }).then(function (p) { return { item: item, product: p }; });
+      }));
+    }).then(function (rows) {
+      var total = 0;
+      document.getElementById('tbodyid').innerHTML = rows.map(function (row) {
+        total += row.product.price;
+        return '<tr class="success"><td><img width="100" height="100" src="' + row.product.img + '" alt=""></td>' +
+          '<td>' + row.product.title + '</td><td>' + row.product.price + '</td>' +
+          '<td><a href="#" data-delete="' + row.item.id + '">Delete</a></td></tr>';
+      }).join('');
+      document.getElementById('totalp').textContent = rows.length > 0 ? String(total) : '';
+    });
+  }
+
+  function showPurchaseConfirmation(data) {
+    var now = new Date();
+    var overlay = document.createElement('div');
+    overlay.className = 'sweet-overlay';
+    overlay.style.display = 'block';
+    var alertBox = document.createElement('div');
+    alertBox.className = 'sweet-alert showSweetAlert visible';
+    alertBox.style.display = 'block';
+    alertBox.innerHTML = '' +
+      '<div class="sa-icon sa-success animate"></div>' +
+      '<h2>Thank you for your purchase!</h2>' +
+      '<p class="lead text-muted">Id: ' + Math.floor(Math.random() * 9000000 + 1000000) +
+      '<br>Amount: ' + data.amount + ' USD' +
+      '<br>Card Number: ' + data.card +
+      '<br>Name: ' + data.name +
+      // The live site renders getMonth() without +1 - kept for parity
+      '<br>Date: ' + now.getDate() + '/' + now.getMonth() + '/' + now.getFullYear() + '</p>' +
+      '<div class="sa-button-container"><button class="confirm btn btn-lg btn-primary" tabindex="1">OK</button></div>';
+    document.body.appendChild(overlay);
+    document.body.appendChild(alertBox);
+    alertBox.querySelector('.confirm').addEventListener('click', function () {
+      window.location.href = 'index.html';
+    });
+  }
+
+  function initCart() {
+    document.getElementById('tbodyid').addEventListener('click', function (event) {
+      var link = event.target.closest('[data-delete]');
+      if (!link) return;
+      event.preventDefault();
+      api('/deleteitem', { id: link.getAttribute('data-delete') }).then(showCart);
+    });
+
+    document.getElementById('purchase').addEventListener('click', function () {
+      var name = document.getElementById('name').value;
+      var card = document.getElementById('card').value;
+      if (name === '' || card === '') {
+        alert('Please fill out Name and Creditcard.');
+        return;
+      }
+      var amount = document.getElementById('totalp').textContent || '0';
+      var owner = cartOwner();
+      api('/deletecart', { cookie: owner.cookie }).then(function () {
+        hideModal(document.getElementById('orderModal'));
+        showPurchaseConfirmation({ amount: amount, card: card, name: name });
+      });
+    });
+
+    showCart();
+  }
+
+  checkToken();
+  if (PAGE === 'home') initHome();
+  if (PAGE === 'product') initProduct();
+  if (PAGE === 'cart') initCart();
+})();
@@ -0,0 +1,162 @@
+import { Page, expect } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { DemoblazeHomeLocators } from '../locators/DemoblazeHomeLocators';
+import { DemoblazeAuthLocators } from '../locators/DemoblazeAuthLocators';
+import { BasePage } from '../base/BasePage';
+import { WaitHelper } from '../utils/WaitHelper';
+import { Credentials } from '../clients/ApiTypes';
+import { LoginModal } from '../components/LoginModal';
+import { SignUpModal } from '../components/SignUpModal';
+import { DialogManager } from '../utils/DialogManager';
+
+export interface AuthOutcome {
+  success: boolean;
+  /** Native dialog text (errors, and the sign-up confirmation); null when none was shown */
+  message: string | null;
+}
+
+/**
+ * Sign-up, login and logout flows with injected locator facade.
+ * The storefront reports outcomes through native alert() dialogs, claimed here through the DialogManager.
+ */
+export interface DemoblazeAuthPage extends DemoblazeHomeLocators, DemoblazeAuthLocators {}
+export class DemoblazeAuthPage extends BasePage {
+  private static readonly SIGNUP_SUCCESS = /sign up successful/i;
+
+  readonly modals: {
+    readonly login: LoginModal;
+    readonly signUp: SignUpModal;
+  };
+
+  constructor(page: Page, locators: DemoblazeLocators, private readonly dialogs: DialogManager) {
+    super(page);
+    Object.assign(this, locators.home, locators.auth);
+    this.modals = {
+      login: new LoginModal(page, locators),
+      signUp: new SignUpModal(page, locators),
+    };
+  }
+
+  /**
+   * Run an action and resolve with whichever comes first: a native dialog (failure) or the success signal.
+   * The dialog wait is cancelled afterwards so it cannot claim later dialogs.
+   */
+  private async awaitOutcome(
+    action: () => Promise<void>,
+    succeeded: () => Promise<void>
+  ): Promise<AuthOutcome> {
+    const stopWaiting = new AbortController();
+    const dialogShown = this.dialogs
+      .waitFor(() => true, { timeoutMs: WaitHelper.LONG_TIMEOUT_MS, signal: stopWaiting.signal })
+      .then((record): AuthOutcome => ({ success: false, message: record.message }));
+    // The losing side of the race must not surface as an unhandled rejection
+    dialogShown.catch(() => undefined);
+
+    try {
+      await action();
+      return await Promise.race([
+        dialogShown,
+        succeeded().then((): AuthOutcome => ({ success: true, message: null })),
+      ]);
+    } finally {
+      stopWaiting.abort();
+    }
+  }
+
+  // =========================================================================
+  // SIGN UP
+  // =========================================================================
+
+  async openSignupModal() {
+    await this.modals.signUp.open();
+  }
+
+  async closeSignupModal() {
+    await this.modals.signUp.close();
+  }
+
+  /**
+   * Register a user through the sign-up modal
+   * @returns success when the storefront confirms with "Sign up successful."; otherwise the dialog error
+   */
+  async signup(credentials: Credentials): Promise<AuthOutcome> {
+    await this.openSignupModal();
+    await this.modals.signUp.fill(credentials);
+
+    await this.modals.signUp.submit();
+    const { message } = await this.dialogs.waitFor(() => true, { timeoutMs: WaitHelper.LONG_TIMEOUT_MS });
+
+    const success = DemoblazeAuthPage.SIGNUP_SUCCESS.test(message);
+    this.logger.info(`Sign up ${credentials.username}: ${message}`);
+    if (!success && await this.modals.signUp.isOpen()) {
+      await this.closeSignupModal();
+    }
+    return { success, message };
+  }
+
+  // =========================================================================
+  // LOGIN / LOGOUT
+  // =========================================================================
+
+  async openLoginModal() {
+    await this.modals.login.open();
+  }
+
+  async closeLoginModal() {
+    await this.modals.login.close();
+  }
+
+  /**
+   * Log in through the login modal
+   * @returns success once "Welcome <user>" is shown; otherwise the dialog error (e.g. "Wrong password.")
+   */
+  async login(credentials: Credentials): Promise<AuthOutcome> {
+    await this.openLoginModal();
+    await this.modals.login.fill(credentials);
+
+    const outcome = await this.awaitOutcome(
+      async () => await this.modals.login.submit(),
+      async () => await expect(this.welcomeUser).toHaveText(`Welcome ${credentials.username}`, { timeout: WaitHelper.LONG_TIMEOUT_MS })
+    );
+    this.logger.info(`Login ${credentials.username}: ${outcome.success ? 'welcome shown' : outcome.message}`);
+    if (!outcome.success && await this.modals.login.isOpen()) {
+      await this.closeLoginModal();
+    }
+    return outcome;
+  }
+
+  async logout() {
+    await this.logoutLink.click();
+    await this.expectLoggedOut();
+    this.logger.info('Logged out');
+  }
+
+  // =========================================================================
+  // SESSION STATE
+  // =========================================================================
+
+  async isLoggedIn(): Promise<boolean> {
+    return await this.welcomeUser.isVisible().catch(() => false);
+  }
+
+  /**
+   * Username from the "Welcome <user>" nav item, or null when logged out
+   */
+  async getLoggedInUsername(): Promise<string | null> {
+    if (!(await this.isLoggedIn())) return null;
+    const text = (await this.welcomeUser.textContent())?.trim() ?? '';
+    return text.replace(/^Welcome\s+/, '') || null;
+  }
+
+  async expectLoggedInAs(username: string) {
+    await expect(this.welcomeUser).toHaveText(`Welcome ${username}`);
+    await expect(this.logoutLink).toBeVisible();
+    await expect(this.loginLink).not.toBeVisible();
+  }
+
+  async expectLoggedOut() {
+    await expect(this.loginLink).toBeVisible();
+    await expect(this.signupLink).toBeVisible();
+    await expect(this.welcomeUser).not.toBeVisible();
+  }
+}
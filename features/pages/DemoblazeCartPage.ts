@@ -1,17 +1,54 @@
-import { Page, expect } from '@playwright/test';
+import { Page, Locator, expect } from '@playwright/test';
 import { DemoblazeLocators } from '../locators/DemoblazeLocators';
 import { DemoblazeCartLocators } from '../locators/DemoblazeCartLocators';
 import { BasePage } from '../base/BasePage';
 import { WaitHelper } from '../utils/WaitHelper';
+import { ApiConstants } from '../clients/ApiConstants';
+import { CheckoutFormData } from '../data/cartData';
+import { OrderModal } from '../components/OrderModal';
+import { DialogManager } from '../utils/DialogManager';
+
+export interface CartLine {
+  title: string;
+  /** Unit price in USD as shown in the table */
+  price: number;
+  row: Locator;
+  /** Delete this line and wait for the table to re-render */
+  delete(): Promise<void>;
+}
+
+export interface OrderConfirmation {
+  id: string;
+  /** Charged amount in USD */
+  amount: number;
+  /** Card number as confirmed, masked to the last four digits */
+  cardNumber: string;
+  name: string;
+  /** Date as displayed (the site renders a 0-based month: d/m/yyyy) */
+  date: string;
+}
 
 /**
  * Cart and checkout page object with injected locator facade.
  */
 export interface DemoblazeCartPage extends DemoblazeCartLocators {}
 export class DemoblazeCartPage extends BasePage {
-  constructor(page: Page, locators: DemoblazeLocators) {
+  private static readonly STABLE_POLLS = 2;
+
+  readonly modals: {
+    readonly order: OrderModal;
+  };
+
+  constructor(page: Page, locators: DemoblazeLocators, private readonly dialogs: DialogManager) {
     super(page);
     Object.assign(this, locators.cart);
+    this.modals = {
+      order: new OrderModal(page, locators),
+    };
+  }
+
+  protected override dynamicRegions(): Locator[] {
+    return [this.cartLineImages];
   }
 
   private getCartItemLocator(productName: string) {
@@ -22,16 +59,23 @@ export class DemoblazeCartPage extends BasePage {
     timeoutMs: number = WaitHelper.SHORT_TIMEOUT_MS,
     pollIntervalMs: number = WaitHelper.DEFAULT_POLL_INTERVAL_MS
   ): Promise<void> {
-    await WaitHelper.waitForCondition(
+    await WaitHelper.waitForValue(
       async () => await this.isOrderModalVisible(),
+      (visible) => visible,
       timeoutMs,
-      pollIntervalMs
+      pollIntervalMs,
+      { description: 'Order modal visible' }
     );
   }
 
+  /**
+   * Message of the next native alert (e.g. form validation) or, failing that, of the sweet-alert box
+   */
   private async waitForAlertMessage(
     timeoutMs: number = WaitHelper.SHORT_TIMEOUT_MS
   ): Promise<string | null> {
+    const dialog = await this.dialogs.waitFor(() => true, { timeoutMs }).catch(() => null);
+    if (dialog) return dialog.message;
     try {
       await this.alertBox.waitFor({ state: 'visible', timeout: timeoutMs });
       return (await this.alertBox.textContent())?.trim() || null;
@@ -47,7 +91,7 @@ export class DemoblazeCartPage extends BasePage {
   }
 
   private async isOrderModalVisible(): Promise<boolean> {
-    return await this.orderModal.isVisible().catch(() => false);
+    return await this.modals.order.isOpen();
   }
 
   async getTotalPrice(): Promise<string> {
@@ -56,39 +100,122 @@ export class DemoblazeCartPage extends BasePage {
   }
 
   async getCartItemCount(): Promise<number> {
-    const rows = await this.cartItems.count();
-    return Math.max(0, rows - 1);
+    return await this.cartItems.count();
+  }
+
+  // =========================================================================
+  // CART LINES
+  // =========================================================================
+
+  /**
+   * Wait for the AJAX-rendered table to settle
+   * Lines arrive after /viewcart plus one /view per item, so the row count and total
+   * must hold steady across consecutive polls before they are read.
+   */
+  private async waitForCartToRender(): Promise<void> {
+    await this.page.waitForLoadState('networkidle').catch(() => undefined);
+    let previous = '';
+    let stablePolls = 0;
+    await WaitHelper.waitForValue(
+      async () => ({ lines: await this.cartItems.count(), total: await this.getTotalPrice() }),
+      (snapshot) => {
+        const key = `${snapshot.lines}|${snapshot.total}`;
+        stablePolls = key === previous ? stablePolls + 1 : 0;
+        previous = key;
+        return stablePolls >= DemoblazeCartPage.STABLE_POLLS;
+      },
+      WaitHelper.DEFAULT_TIMEOUT_MS,
+      WaitHelper.SLOW_POLL_INTERVAL_MS,
+      { description: 'Cart lines and total settle' }
+    );
+  }
+
+  private static parsePrice(text: string | null): number {
+    const value = Number((text ?? '').replace(/[^0-9.]/g, ''));
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  /**
+   * Read the rendered cart as typed lines
+   * @returns One CartLine per table row, in display order
+   */
+  async getCartLines(): Promise<CartLine[]> {
+    await this.waitForCartToRender();
+    const rows = await this.cartItems.all();
+    const lines: CartLine[] = [];
+    for (const row of rows) {
+      const title = (await row.locator('td').nth(1).textContent())?.trim() ?? '';
+      const price = DemoblazeCartPage.parsePrice(await row.locator('td').nth(2).textContent());
+      lines.push({ title, price, row, delete: async () => await this.deleteLine(row, title) });
+    }
+    return lines;
+  }
+
+  /**
+   * Cart total as a number (0 when the cart is empty and #totalp is blank)
+   */
+  async getTotal(): Promise<number> {
+    await this.waitForCartToRender();
+    return DemoblazeCartPage.parsePrice(await this.getTotalPrice());
+  }
+
+  /**
+   * Assert the displayed total equals the sum of the line prices
+   * @returns Cart lines the total was reconciled against
+   * @throws AssertionError when total and line prices disagree
+   */
+  async expectTotalMatchesLines(): Promise<CartLine[]> {
+    const lines = await this.getCartLines();
+    const linesTotal = lines.reduce((sum, line) => sum + line.price, 0);
+    const total = await this.getTotal();
+    expect(total, `Cart total should equal the sum of ${lines.length} line prices`).toBe(linesTotal);
+    return lines;
+  }
+
+  /**
+   * Delete the first line with the given product title
+   * @throws Error when no line matches
+   */
+  async deleteItemByName(productName: string): Promise<void> {
+    const lines = await this.getCartLines();
+    const line = lines.find((l) => l.title === productName);
+    if (!line) {
+      throw new Error(`No cart line for "${productName}" (cart has: ${lines.map((l) => l.title).join(', ') || 'nothing'})`);
+    }
+    await line.delete();
   }
 
   async deleteItem(index: number) {
-    const deleteButtons = this.deleteButtons;
-    await deleteButtons.nth(index).click();
-    await this.waitForPageLoad();
+    await this.waitForCartToRender();
+    const row = this.cartItems.nth(index);
+    const title = (await row.locator('td').nth(1).textContent())?.trim() ?? '';
+    await this.deleteLine(row, title);
+  }
+
+  /**
+   * Click a row's Delete link and wait for the table to re-render without it
+   * The delete is AJAX (/deleteitem then a cart refresh) - no navigation or load event happens.
+   */
+  private async deleteLine(row: Locator, title: string): Promise<void> {
+    const rowsBefore = await this.cartItems.count();
+    const deleted = this.page.waitForResponse((response) => response.url().endsWith(ApiConstants.paths.deleteItem));
+    await row.getByRole('link', { name: 'Delete', exact: true }).click();
+    await deleted;
+    await expect(this.cartItems).toHaveCount(rowsBefore - 1, { timeout: WaitHelper.DEFAULT_TIMEOUT_MS });
+    await this.waitForCartToRender();
+    this.logger.info(`Deleted cart line: ${title}`);
   }
 
   async clickPlaceOrder() {
-    await this.placeOrderButton.click();
-    await expect(this.orderModal).toBeVisible();
-  }
-
-  async fillOrderForm(
-    name: string,
-    country: string,
-    city: string,
-    creditCard: string,
-    month: string,
-    year: string
-  ) {
-    await this.orderName.fill(name);
-    await this.orderCountry.fill(country);
-    await this.orderCity.fill(city);
-    await this.orderCreditCard.fill(creditCard);
-    await this.orderMonth.fill(month);
-    await this.orderYear.fill(year);
+    await this.modals.order.open();
+  }
+
+  async fillOrderForm(data: CheckoutFormData) {
+    await this.modals.order.fill(data);
   }
 
   async completePurchase() {
-    await this.purchaseButton.click();
+    await this.modals.order.purchase();
   }
 
   async getSuccessMessage(): Promise<string> {
@@ -102,6 +229,71 @@ export class DemoblazeCartPage extends BasePage {
     expect(successMsg).toContain('Thank you');
   }
 
+  // =========================================================================
+  // CHECKOUT
+  // =========================================================================
+
+  /**
+   * Place an order for the current cart and verify the confirmation
+   * @param data - Checkout form values
+   * @returns Parsed order confirmation
+   * @throws AssertionError when amount, name or card do not match what was submitted
+   */
+  async checkout(data: CheckoutFormData): Promise<OrderConfirmation> {
+    const cartTotal = await this.getTotal();
+    await this.clickPlaceOrder();
+    await this.fillOrderForm(data);
+    await this.completePurchase();
+
+    const confirmation = await this.getOrderConfirmation();
+    this.expectOrderConfirmation(confirmation, data, cartTotal);
+    this.logger.info(`Order ${confirmation.id} confirmed: ${confirmation.amount} USD for ${confirmation.name}`);
+    return confirmation;
+  }
+
+  /**
+   * Parse the sweet-alert shown after purchase
+   * Body format: "Id: 123<br>Amount: 360 USD<br>Card Number: 4111...<br>Name: ...<br>Date: d/m/yyyy"
+   * @returns Confirmation with the card number masked to its last four digits
+   * @throws Error when a field is missing from the alert
+   */
+  async getOrderConfirmation(): Promise<OrderConfirmation> {
+    await this.verifyPurchaseSuccess();
+    const body = await this.confirmationDetails.innerText();
+    const fields = new Map(body.split('\n').map((line) => {
+      const separator = line.indexOf(':');
+      return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()] as const;
+    }));
+    const field = (name: string): string => {
+      const value = fields.get(name);
+      if (value === undefined) throw new Error(`Order confirmation has no "${name}" field:\n${body}`);
+      return value;
+    };
+
+    return {
+      id: field('Id'),
+      amount: Number(field('Amount').replace(/[^0-9.]/g, '')),
+      cardNumber: DemoblazeCartPage.maskCardNumber(field('Card Number')),
+      name: field('Name'),
+      date: field('Date'),
+    };
+  }
+
+  /**
+   * Assert a confirmation matches the cart total and the submitted form
+   */
+  expectOrderConfirmation(confirmation: OrderConfirmation, data: CheckoutFormData, cartTotal: number): void {
+    expect(confirmation.id, 'Order id').toMatch(/^\d+$/);
+    expect(confirmation.amount, 'Confirmed amount should equal the cart total').toBe(cartTotal);
+    expect(confirmation.name, 'Confirmed name').toBe(data.name);
+    expect(confirmation.cardNumber, 'Confirmed card').toBe(DemoblazeCartPage.maskCardNumber(data.creditCard));
+  }
+
+  private static maskCardNumber(cardNumber: string): string {
+    const digits = cardNumber.replace(/\s+/g, '');
+    return digits.length <= 4 ? digits : `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}`;
+  }
+
   async goToHome() {
     await this.homeLink.click();
     await this.waitForPageLoad();
@@ -1,17 +1,47 @@
-import { Page, expect } from '@playwright/test';
+import { Page, Locator, expect } from '@playwright/test';
 import { DemoblazeLocators } from '../locators/DemoblazeLocators';
 import { DemoblazeHomeLocators } from '../locators/DemoblazeHomeLocators';
 import { BasePage } from '../base/BasePage';
 import { WaitHelper } from '../utils/WaitHelper';
+import { ApiConstants } from '../clients/ApiConstants';
+import { LoginModal } from '../components/LoginModal';
+import { ContactModal } from '../components/ContactModal';
+import { AboutUsModal } from '../components/AboutUsModal';
+import { DialogManager } from '../utils/DialogManager';
+
+export interface ProductCard {
+  /** Product id from the card link (prod.html?idp_=<id>) */
+  id: number;
+  title: string;
+  price: number;
+  description: string;
+}
 
 /**
  * Home page object with injected locator facade.
  */
 export interface DemoblazeHomePage extends DemoblazeHomeLocators {}
 export class DemoblazeHomePage extends BasePage {
-  constructor(page: Page, locators: DemoblazeLocators) {
+  private static readonly PRODUCT_ADDED = /product added/i;
+
+  readonly modals: {
+    readonly login: LoginModal;
+    readonly contact: ContactModal;
+    readonly aboutUs: AboutUsModal;
+  };
+
+  constructor(page: Page, locators: DemoblazeLocators, private readonly dialogs: DialogManager) {
     super(page);
     Object.assign(this, locators.home);
+    this.modals = {
+      login: new LoginModal(page, locators),
+      contact: new ContactModal(page, locators),
+      aboutUs: new AboutUsModal(page, locators),
+    };
+  }
+
+  protected override dynamicRegions(): Locator[] {
+    return [this.carousel, this.productCardImages];
   }
 
   private getProductByName(productName: string) {
@@ -31,12 +61,11 @@ export class DemoblazeHomePage extends BasePage {
     return categoryMap[category];
   }
 
-  private async waitForAlertToDisappear(): Promise<void> {
-    await WaitHelper.waitForCondition(
-      async () => !(await this.alertBox.isVisible().catch(() => false)),
-      WaitHelper.SHORT_TIMEOUT_MS,
-      WaitHelper.DEFAULT_POLL_INTERVAL_MS
-    );
+  /**
+   * Claim the "Product added." dialog shown once /addtocart succeeds
+   */
+  private async waitForProductAdded(): Promise<void> {
+    await this.dialogs.expectNext(DemoblazeHomePage.PRODUCT_ADDED, { timeoutMs: WaitHelper.LONG_TIMEOUT_MS });
   }
 
   private async waitForPageLoad(
@@ -64,59 +93,56 @@ export class DemoblazeHomePage extends BasePage {
    * Get alert message text
    */
   async getAlertMessage(): Promise<string> {
-    await WaitHelper.waitForCondition(
+    return await WaitHelper.waitForValue(
       async () => {
         const isVisible = await this.alertBox.isVisible();
-        if (!isVisible) return false;
-        const text = await this.alertBox.textContent();
-        return !!text && text.trim().length > 0;
+        if (!isVisible) return '';
+        return (await this.alertBox.textContent())?.trim() || '';
       },
+      (text) => text.length > 0,
       WaitHelper.DEFAULT_TIMEOUT_MS,
-      WaitHelper.DEFAULT_POLL_INTERVAL_MS
+      WaitHelper.DEFAULT_POLL_INTERVAL_MS,
+      { description: 'Alert box text' }
     );
-    
-    return (await this.alertBox.textContent())?.trim() || '';
   }
 
   async openLoginModal() {
-    await this.loginLink.click();
-    await expect(this.loginModal).toBeVisible();
+    await this.modals.login.open();
   }
 
   async login(username: string, password: string) {
-    await this.loginUsername.fill(username);
-    await this.loginPassword.fill(password);
-    await this.loginButton.click();
+    await this.modals.login.fill({ username, password });
+    await this.modals.login.submit();
   }
 
   async closeLoginModal() {
-    await this.loginModalClose.click();
-    await expect(this.loginModal).not.toBeVisible();
+    await this.modals.login.close();
   }
 
   async openContactModal() {
-    await this.contactLink.click();
-    await expect(this.contactModal).toBeVisible();
+    await this.modals.contact.open();
   }
 
   async fillContactForm(email: string, name: string, message: string) {
-    await this.contactEmail.fill(email);
-    await this.contactName.fill(name);
-    await this.contactMessage.fill(message);
+    await this.modals.contact.fill(email, name, message);
   }
 
-  async submitContactForm() {
-    await this.contactSendButton.click();
+  /**
+   * Send the contact form
+   * @returns Confirmation dialog text ("Thanks for the message!!")
+   */
+  async submitContactForm(): Promise<string> {
+    await this.modals.contact.send();
+    return (await this.dialogs.expectNext(/thanks for the message/i)).message;
   }
 
   async closeContactModal() {
-    await this.contactModalClose.click();
-    await expect(this.contactModal).not.toBeVisible();
+    await this.modals.contact.close();
   }
 
   async addToCart() {
     await this.addToCartButton.click();
-    await this.waitForAlertToDisappear();
+    await this.waitForProductAdded();
   }
 
   async goToCart() {
@@ -128,15 +154,122 @@ export class DemoblazeHomePage extends BasePage {
     await this.clickProduct(productName);
     await this.waitForPageLoad('domcontentloaded');
     await this.addToCartButton.click();
-    await this.waitForAlertToDisappear();
+    await this.waitForProductAdded();
   }
 
   async filterByCategory(category: 'Phones' | 'Laptops' | 'Monitors'): Promise<number> {
+    // The previous grid stays visible until /bycat answers, so wait for the response before reading
+    const filtered = this.page.waitForResponse((response) => response.url().endsWith(ApiConstants.paths.byCategory));
     await this.getCategoryLocator(category).click();
+    await filtered;
     await this.productItems.first().waitFor({ state: 'visible', timeout: WaitHelper.DEFAULT_TIMEOUT_MS });
+    await this.waitForGridToSettle();
     return await this.productItems.count();
   }
 
+  /**
+   * Product links currently rendered, joined into one comparable string
+   */
+  private async gridSnapshot(): Promise<string> {
+    return (await this.productItems.evaluateAll((links) => links.map((a) => a.getAttribute('href')))).join('|');
+  }
+
+  /**
+   * Wait until the rendered product links stop changing between polls
+   */
+  private async waitForGridToSettle(): Promise<void> {
+    let previous = '';
+    await WaitHelper.waitForValue(
+      async () => await this.gridSnapshot(),
+      (snapshot) => {
+        const settled = snapshot === previous;
+        previous = snapshot;
+        return settled;
+      },
+      WaitHelper.DEFAULT_TIMEOUT_MS,
+      WaitHelper.SLOW_POLL_INTERVAL_MS,
+      { description: 'Product grid settles' }
+    );
+  }
+
+  /**
+   * Click a pagination button and wait for the grid to show different products
+   * @returns Cards of the new page (empty when the storefront rendered no products)
+   * @throws WaitTimeoutError when the grid does not change within the timeout
+   */
+  private async changePage(button: Locator): Promise<ProductCard[]> {
+    const before = await this.gridSnapshot();
+    await button.click();
+    await WaitHelper.waitForValue(
+      async () => await this.gridSnapshot(),
+      (snapshot) => snapshot !== before,
+      WaitHelper.LONG_TIMEOUT_MS,
+      WaitHelper.DEFAULT_POLL_INTERVAL_MS,
+      { description: 'Product grid changes page' }
+    );
+    if (await this.productItems.count() === 0) return [];
+    return await this.getProductCards();
+  }
+
+  async hasNextPage(): Promise<boolean> {
+    return await this.nextPageButton.isVisible();
+  }
+
+  async hasPreviousPage(): Promise<boolean> {
+    return await this.previousPageButton.isVisible();
+  }
+
+  async goToNextPage(): Promise<ProductCard[]> {
+    const cards = await this.changePage(this.nextPageButton);
+    this.logger.info(`Next page: ${cards.length} product(s)`);
+    return cards;
+  }
+
+  async goToPreviousPage(): Promise<ProductCard[]> {
+    const cards = await this.changePage(this.previousPageButton);
+    this.logger.info(`Previous page: ${cards.length} product(s)`);
+    return cards;
+  }
+
+  /**
+   * Walk the listing with Next until no further page is offered
+   * Stops early if a page brings no unseen products, so a Next button that is never hidden cannot loop.
+   * @returns Every product from the current page onwards, in display order
+   */
+  async getAllProducts(): Promise<ProductCard[]> {
+    const products = await this.getProductCards();
+    const seen = new Set(products.map((product) => product.id));
+
+    while (await this.hasNextPage()) {
+      const fresh = (await this.goToNextPage()).filter((card) => !seen.has(card.id));
+      if (fresh.length === 0) break;
+      fresh.forEach((card) => seen.add(card.id));
+      products.push(...fresh);
+    }
+    this.logger.info(`Catalog traversal found ${products.length} product(s)`);
+    return products;
+  }
+
+  /**
+   * Read the product grid currently shown (home listing or a category)
+   * @returns One ProductCard per rendered card, in display order
+   */
+  async getProductCards(): Promise<ProductCard[]> {
+    await this.productItems.first().waitFor({ state: 'visible', timeout: WaitHelper.DEFAULT_TIMEOUT_MS });
+    await this.waitForGridToSettle();
+    return await this.productCards.evaluateAll((cards) => cards.map((card) => {
+      const link = card.querySelector('.card-title a');
+      const href = link?.getAttribute('href') ?? '';
+      const id = new URLSearchParams(href.slice(href.indexOf('?') + 1)).get('idp_');
+      return {
+        id: Number(id),
+        title: link?.textContent?.trim() ?? '',
+        price: Number((card.querySelector('h5')?.textContent ?? '').replace(/[^0-9.]/g, '')),
+        description: card.querySelector('.card-text')?.textContent?.trim() ?? '',
+      };
+    }));
+  }
+
   async verifyProductInListing(productName: string): Promise<boolean> {
     const product = this.getProductByName(productName);
     return await product.isVisible().catch(() => false);
@@ -161,7 +294,6 @@ export class DemoblazeHomePage extends BasePage {
     await this.clickProduct(productName);
     await this.waitForPageLoad();
     await this.addToCart();
-    await this.waitForAlertToDisappear();
     await this.goToCart();
   }
 
@@ -174,13 +306,14 @@ export class DemoblazeHomePage extends BasePage {
     const initiallyVisible = await this.verifyProductInCart(productName);
     await this.page.reload();
     await this.waitForPageLoad();
-    await WaitHelper.waitForCondition(
-      async () => await this.verifyProductInCart(productName),
+    const listedAfterReload = await WaitHelper.waitForValue(
+      async () => await this.getProductInCart(productName).filter({ visible: true }).count(),
+      (matches) => matches > 0,
       WaitHelper.DEFAULT_TIMEOUT_MS,
-      WaitHelper.SLOW_POLL_INTERVAL_MS
+      WaitHelper.SLOW_POLL_INTERVAL_MS,
+      { description: `"${productName}" listed in cart after reload` }
     );
-    const stillVisible = await this.verifyProductInCart(productName);
-    return initiallyVisible && stillVisible;
+    return initiallyVisible && listedAfterReload > 0;
   }
 
   async testSequentialCategoryNavigation(): Promise<void> {
@@ -201,8 +334,8 @@ export class DemoblazeHomePage extends BasePage {
       await this.addProductToCart(product);
       this.logger.info(`${product} added`);
       if (products.indexOf(product) < products.length - 1) {
-        const baseUrl = process.env.BASE_URL || 'https://www.demoblaze.com/index.html';
-        await this.page.goto(baseUrl, { waitUntil: 'domcontentloaded' });
+        // Resolved against the configured baseURL (live site or local replica)
+        await this.page.goto('index.html', { waitUntil: 'domcontentloaded' });
       }
     }
     await this.goToCart();
@@ -1,31 +1,61 @@
-import { Page } from '@playwright/test';
+import { Page, Locator, expect } from '@playwright/test';
 import { DemoblazeLocators } from '../locators/DemoblazeLocators';
 import { DemoblazeProductLocators } from '../locators/DemoblazeProductLocators';
 import { BasePage } from '../base/BasePage';
 import { WaitHelper } from '../utils/WaitHelper';
+import { ApiConstants } from '../clients/ApiConstants';
+import { DialogManager } from '../utils/DialogManager';
+
+export interface ProductDetails {
+  /** From the prod.html?idp_=<id> URL */
+  id: number;
+  title: string;
+  price: number;
+  /** Price is labelled "*includes tax" */
+  taxIncluded: boolean;
+  description: string;
+  /** Absolute URL of the product image */
+  imageUrl: string;
+}
+
+export interface AddToCartConfirmation {
+  productId: number;
+  /** HTTP status of /addtocart */
+  status: number;
+  /** Native dialog text ("Product added.") */
+  message: string;
+}
 
 /**
  * Product detail page object with injected locator facade.
  */
 export interface DemoblazeProductPage extends DemoblazeProductLocators {}
 export class DemoblazeProductPage extends BasePage {
-  constructor(page: Page, locators: DemoblazeLocators) {
+  private static readonly PRODUCT_ADDED = /product added/i;
+
+  constructor(page: Page, locators: DemoblazeLocators, private readonly dialogs: DialogManager) {
     super(page);
     Object.assign(this, locators.product);
   }
 
+  protected override dynamicRegions(): Locator[] {
+    return [this.productImage];
+  }
+
   /**
-    * Wait for a dialog message and auto-accept.
+   * Claim the next dialog message ('' when none is shown in time)
    */
   private async waitForDialogMessage(timeoutMs: number = WaitHelper.SHORT_TIMEOUT_MS): Promise<string> {
-    return await new Promise<string>((resolve) => {
-      this.page.once('dialog', dialog => {
-        resolve(dialog.message());
-        dialog.accept();
-      });
+    const record = await this.dialogs.waitFor(() => true, { timeoutMs }).catch(() => null);
+    return record?.message ?? '';
+  }
 
-      setTimeout(() => resolve(''), timeoutMs);
-    });
+  /**
+   * "$360 *includes tax" -> 360
+   */
+  private static parsePrice(text: string): number {
+    const match = text.replace(/,/g, '').match(/\d+(\.\d+)?/);
+    return match ? Number(match[0]) : NaN;
   }
 
   private async waitForPageLoad(
@@ -34,6 +64,15 @@ export class DemoblazeProductPage extends BasePage {
     await this.page.waitForLoadState(waitUntil);
   }
 
+  /**
+   * Open a product detail page by id and wait for /view to fill it in
+   */
+  async openProduct(productId: number) {
+    // Resolved against the configured baseURL (live site or local replica)
+    await this.page.goto(`prod.html?idp_=${productId}`, { waitUntil: 'domcontentloaded' });
+    await expect(this.productTitle).not.toBeEmpty({ timeout: WaitHelper.LONG_TIMEOUT_MS });
+  }
+
   async getProductTitle(): Promise<string> {
     return await this.productTitle.textContent() || '';
   }
@@ -42,10 +81,65 @@ export class DemoblazeProductPage extends BasePage {
     return await this.productPrice.textContent() || '';
   }
 
+  async getProductDescription(): Promise<string> {
+    return (await this.productDescription.textContent())?.trim() || '';
+  }
+
+  /**
+   * Product id of the open page, from the idp_ query parameter
+   * @throws Error when the URL carries no numeric idp_
+   */
+  getProductId(): number {
+    const id = Number(new URL(this.page.url()).searchParams.get('idp_'));
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`No product id in ${this.page.url()}`);
+    }
+    return id;
+  }
+
+  /**
+   * Read the rendered product as typed data (waits for /view to fill the page)
+   * @returns Parsed details; price is numeric and the tax label is reported separately
+   */
+  async getProductDetails(): Promise<ProductDetails> {
+    await expect(this.productTitle).not.toBeEmpty({ timeout: WaitHelper.LONG_TIMEOUT_MS });
+    const priceText = await this.getProductPrice();
+    return {
+      id: this.getProductId(),
+      title: (await this.getProductTitle()).trim(),
+      price: DemoblazeProductPage.parsePrice(priceText),
+      taxIncluded: /includes tax/i.test(priceText),
+      description: await this.getProductDescription(),
+      imageUrl: await this.productImage.evaluate((img) => (img as HTMLImageElement).src),
+    };
+  }
+
   async addToCart() {
     await this.addToCartButton.click();
   }
 
+  /**
+   * Add the open product to the cart and wait for both the /addtocart response and the "Product added." dialog
+   * @returns Response status and dialog text
+   * @throws Error when /addtocart fails or no confirmation dialog is shown
+   */
+  async addToCartAndConfirm(): Promise<AddToCartConfirmation> {
+    const productId = this.getProductId();
+    const added = this.page.waitForResponse(
+      (response) => response.url().endsWith(ApiConstants.paths.addToCart) && response.request().method() === 'POST',
+      { timeout: WaitHelper.LONG_TIMEOUT_MS }
+    );
+
+    await this.addToCartButton.click();
+    const response = await added;
+    if (!response.ok()) {
+      throw new Error(`Adding product ${productId} failed: /addtocart returned HTTP ${response.status()}`);
+    }
+    const { message } = await this.dialogs.expectNext(DemoblazeProductPage.PRODUCT_ADDED, { timeoutMs: WaitHelper.LONG_TIMEOUT_MS });
+    this.logger.info(`Product ${productId} added to cart`);
+    return { productId, status: response.status(), message };
+  }
+
   /**
    * Get alert message after adding to cart
    * INTENTIONAL BUG NOTE: Alert auto-dismisses after ~3 seconds, making capture timing-sensitive
@@ -1,3 +1,8 @@
 export { DemoblazeHomePage } from './DemoblazeHomePage';
+export type { ProductCard } from './DemoblazeHomePage';
 export { DemoblazeCartPage } from './DemoblazeCartPage';
+export type { CartLine, OrderConfirmation } from './DemoblazeCartPage';
 export { DemoblazeProductPage } from './DemoblazeProductPage';
+export type { ProductDetails, AddToCartConfirmation } from './DemoblazeProductPage';
+export { DemoblazeAuthPage } from './DemoblazeAuthPage';
+export type { AuthOutcome } from './DemoblazeAuthPage';
@@ -4,12 +4,6 @@ import { testData } from '../../data/demoblazeTestData';
 test.describe('@a11y Accessibility Tests: WCAG 2.1 AA Compliance', () => {
   const { products, categories } = testData.home;
 
-  test.beforeEach(async ({ page }) => {
-    page.on('dialog', async (dialog) => {
-      await dialog.accept();
-    });
-  });
-
   test('@a11y @smoke Accessibility Audit: Homepage - WCAG 2.1 AA', async ({
     a11yAudit,
     logger,
@@ -27,15 +21,14 @@ test.describe('@a11y Accessibility Tests: WCAG 2.1 AA Compliance', () => {
   });
 
   test('@a11y @regression Accessibility Audit: Place Order Modal - Form Labels & Navigation', async ({
-    demoblazeHomePage,
+    cartSeeder,
     demoblazeCartPage,
     a11yAudit,
     logger,
   }, testInfo) => {
     await test.step('Setup: Open Place Order modal', async () => {
-      logger.info('Opening Place Order modal');
-      await demoblazeHomePage.addProductToCart(products.samsungGalaxyS6);
-      await demoblazeHomePage.goToCart();
+      logger.info('Seeding cart via API and opening Place Order modal');
+      await cartSeeder.seedAndOpen([testData.api.apiProducts.samsungGalaxyS6]);
       await demoblazeCartPage.clickPlaceOrder();
     });
 
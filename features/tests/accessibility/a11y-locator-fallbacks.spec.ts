@@ -0,0 +1,38 @@
+import { test, expect } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { buildUniqueCredentials } from '../../data/authData';
+
+test.describe('@a11y Accessibility Tests: Locator Fallback Telemetry', () => {
+  // These tests assert on the recorded branches themselves, so a fallback must not fail them
+  test.use({ locatorTelemetry: true, failOnLocatorFallback: false });
+
+  test('@a11y @regression Locator Fallbacks: Login Fields Resolve Through Their CSS Ids', async ({
+    demoblazeHomePage,
+    locators,
+    logger,
+  }) => {
+    await test.step('Fill the login modal', async () => {
+      await demoblazeHomePage.modals.login.open();
+      await demoblazeHomePage.modals.login.fill(buildUniqueCredentials());
+    });
+
+    await test.step('Telemetry records the fallback branch for both fields', async () => {
+      const debt = locators.telemetry.fallbacks().map((entry) => entry.locator);
+      logger.info(`Accessibility debt: ${debt.join(', ') || 'none'}`);
+      expect(debt).toEqual(expect.arrayContaining(['home.loginUsername', 'home.loginPassword']));
+      expect(locators.telemetry.summary().every((entry) => entry.misses === 0)).toBe(true);
+    });
+  });
+
+  test('@a11y @regression Locator Fallbacks: Product Title Resolves Through Its Heading Role', async ({
+    demoblazeProductPage,
+    locators,
+  }) => {
+    await demoblazeProductPage.openProduct(testData.api.apiProducts.samsungGalaxyS6.id);
+    await demoblazeProductPage.getProductTitle();
+
+    const title = locators.telemetry.summary().find((entry) => entry.locator === 'product.productTitle');
+    expect(title).toMatchObject({ fallbackHits: 0, misses: 0 });
+    expect(title?.primaryHits).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,45 @@
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { ModalComponent } from '../../components/ModalComponent';
+
+test.describe('@a11y Accessibility Tests: Modal Focus Management', () => {
+  for (const method of ModalComponent.CLOSE_METHODS) {
+    test(`@a11y @regression Modal Focus: Home Modals Close via ${method} and Restore Focus`, async ({
+      demoblazeHomePage,
+      demoblazeAuthPage,
+      logger,
+    }) => {
+      const { login, contact, aboutUs } = demoblazeHomePage.modals;
+      const modals: Record<string, ModalComponent> = {
+        'Log in': login,
+        'Sign up': demoblazeAuthPage.modals.signUp,
+        'Contact': contact,
+        'About us': aboutUs,
+      };
+
+      for (const [name, modal] of Object.entries(modals)) {
+        await test.step(`${name}: focus moves in and returns after ${method}`, async () => {
+          logger.info(`Checking focus management: ${name} (${method})`);
+          await modal.expectFocusManaged(method);
+        });
+      }
+    });
+  }
+
+  test('@a11y @regression Modal Focus: Place Order Modal Restores Focus to Its Trigger', async ({
+    cartSeeder,
+    demoblazeCartPage,
+    logger,
+  }) => {
+    await test.step('Setup: Seed cart via API and open it', async () => {
+      await cartSeeder.seedAndOpen([testData.api.apiProducts.samsungGalaxyS6]);
+    });
+
+    for (const method of ModalComponent.CLOSE_METHODS) {
+      await test.step(`Place Order: focus moves in and returns after ${method}`, async () => {
+        logger.info(`Checking focus management: Place Order (${method})`);
+        await demoblazeCartPage.modals.order.expectFocusManaged(method);
+      });
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { ApiConstants } from '../../clients/ApiConstants';
+
+test.describe('@api API Tests: Commerce Flow Integration', () => {
+  const { apiProducts } = testData.api;
+
+  test('@api @smoke Catalog Endpoints: View, Category and Pagination', async ({ apiClient, logger }) => {
+    const product = await test.step('API Test: View single product', async () => {
+      logger.step('API Test: View single product');
+      const result = await apiClient.viewProduct(apiProducts.samsungGalaxyS6.id);
+      await apiClient.expectStatusOk(result.response);
+      expect(result.data.title).toBe(apiProducts.samsungGalaxyS6.title);
+      return result.data;
+    });
+
+    await test.step('API Test: Category contains product', async () => {
+      logger.step('API Test: Category contains product');
+      const result = await apiClient.getProductsByCategory(ApiConstants.categories.phones);
+      await apiClient.expectStatusOk(result.response);
+      expect(result.data.Items.map((item) => item.id)).toContain(product.id);
+    });
+
+    await test.step('API Test: Pagination continues after first page', async () => {
+      logger.step('API Test: Pagination continues after first page');
+      const firstPage = await apiClient.getEntries();
+      const lastKey = firstPage.data.LastEvaluatedKey;
+      expect(lastKey).toBeDefined();
+
+      const nextPage = await apiClient.getNextPage(lastKey!.id);
+      await apiClient.expectStatusOk(nextPage.response);
+      const firstIds = firstPage.data.Items.map((item) => item.id);
+      nextPage.data.Items.forEach((item) => expect(firstIds).not.toContain(item.id));
+    });
+  });
+
+  test('@api Auth Endpoints: Signup, Duplicate Signup and Login', async ({ apiClient, harStore, logger }) => {
+    // NETWORK_MODE=replay answers for the user the HAR was recorded with
+    const { buildUniqueCredentials } = testData.auth;
+    const credentials = harStore?.recordedValue('credentials', buildUniqueCredentials) ?? buildUniqueCredentials();
+
+    await test.step('API Test: Signup new user', async () => {
+      logger.step('API Test: Signup new user');
+      const result = await apiClient.signup(credentials);
+      expect(result.data.success).toBe(true);
+    });
+
+    await test.step('API Test: Duplicate signup is rejected', async () => {
+      logger.step('API Test: Duplicate signup is rejected');
+      const result = await apiClient.signup(credentials);
+      expect(result.data.success).toBe(false);
+      expect(result.data.errorMessage).toMatch(/already exist/i);
+    });
+
+    await test.step('API Test: Login returns auth token', async () => {
+      logger.step('API Test: Login returns auth token');
+      const result = await apiClient.login(credentials);
+      expect(result.data.success).toBe(true);
+      expect(result.data.token).toBeTruthy();
+    });
+
+    await test.step('API Test: Wrong password is rejected', async () => {
+      logger.step('API Test: Wrong password is rejected');
+      const result = await apiClient.login({ ...credentials, password: testData.auth.authData.invalidPassword });
+      expect(result.data.success).toBe(false);
+      expect(result.data.errorMessage).toMatch(/wrong password/i);
+    });
+  });
+
+  test('@api Cart Endpoints: Add, View, Delete Item and Delete Cart', async ({ apiClient, logger }) => {
+    const owner = { cookie: randomUUID(), flag: false };
+
+    const added = await test.step('API Test: Add two products to guest cart', async () => {
+      logger.step('API Test: Add two products to guest cart');
+      const first = await apiClient.addToCart(owner, apiProducts.samsungGalaxyS6.id);
+      const second = await apiClient.addToCart(owner, apiProducts.nokiaLumia1520.id);
+      await apiClient.expectStatusOk(first.response);
+      await apiClient.expectStatusOk(second.response);
+      return [first.data, second.data];
+    });
+
+    await test.step('API Test: View cart lists both items', async () => {
+      logger.step('API Test: View cart lists both items');
+      const cart = await apiClient.viewCart(owner);
+      expect(cart.data.Items.map((item) => item.prod_id).sort()).toEqual(
+        [apiProducts.samsungGalaxyS6.id, apiProducts.nokiaLumia1520.id].sort()
+      );
+    });
+
+    await test.step('API Test: Delete single item', async () => {
+      logger.step('API Test: Delete single item');
+      await apiClient.deleteItem(added[0]!.id);
+      const cart = await apiClient.viewCart(owner);
+      expect(cart.data.Items.map((item) => item.id)).not.toContain(added[0]!.id);
+    });
+
+    await test.step('API Test: Delete whole cart', async () => {
+      logger.step('API Test: Delete whole cart');
+      await apiClient.deleteCart(owner.cookie);
+      const cart = await apiClient.viewCart(owner);
+      expect(cart.data.Items).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { test } from '../../fixtures';
+import { DemoblazeApiClient } from '../../clients/DemoblazeApiClient';
+import { formatContractDiff } from '../../clients/ContractRecorder';
+
+test.describe('@api @regression API Tests: Contract Drift Detection', () => {
+  for (const endpoint of DemoblazeApiClient.CONTRACT_ENDPOINTS) {
+    test(`@api Contract Snapshot: /${endpoint} has no breaking changes`, async ({ apiClient, logger }, testInfo) => {
+      const diff = await test.step(`API Test: Diff /${endpoint} against recorded contract`, async () => {
+        logger.step(`API Test: Diff /${endpoint} against recorded contract`);
+        return await apiClient.verifyContract(endpoint);
+      });
+
+      await test.step('Attach contract diff', async () => {
+        logger.info(formatContractDiff(diff));
+        if (diff.status === 'recorded') {
+          testInfo.annotations.push({ type: 'contract-recorded', description: diff.snapshotPath });
+        }
+        await testInfo.attach(`contract-diff-${endpoint}`, {
+          body: JSON.stringify(diff, null, 2),
+          contentType: 'application/json'
+        });
+      });
+    });
+  }
+});
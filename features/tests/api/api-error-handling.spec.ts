@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { ApiConstants } from '../../clients/ApiConstants';
+import { SchemaValidationError } from '../../clients/ApiSchema';
+
+test.describe('@api @regression API Tests: Error Handling (local stand-in)', () => {
+  const { apiProducts } = testData.api;
+
+  test.beforeEach(async ({ mockApi }) => {
+    test.skip(!mockApi, 'Fault injection requires API_BASE_URL=local');
+  });
+
+  test('@api Add To Cart Surfaces Server Error', async ({ apiClient, mockApi, logger }) => {
+    await test.step('Inject 500 on /addtocart', async () => {
+      logger.step('Inject 500 on /addtocart');
+      mockApi!.injectFault({ path: ApiConstants.paths.addToCart, status: 500, times: 1 });
+    });
+
+    await test.step('API Test: Failed add leaves cart empty', async () => {
+      const owner = { cookie: randomUUID(), flag: false };
+      const result = await apiClient.addToCart(owner, apiProducts.samsungGalaxyS6.id);
+      expect(result.status).toBe(500);
+      expect(result.ok).toBe(false);
+
+      const cart = await apiClient.viewCart(owner);
+      expect(cart.data.Items).toHaveLength(0);
+    });
+  });
+
+  test('@api Malformed Catalog JSON Fails Schema Validation', async ({ apiClient, mockApi, logger }) => {
+    await test.step('Inject malformed body on /entries', async () => {
+      logger.step('Inject malformed body on /entries');
+      mockApi!.injectFault({ path: ApiConstants.paths.entries, status: 200, body: '{"Items": [{"id": 1,', times: 1 });
+    });
+
+    await test.step('API Test: Typed fetch rejects the body', async () => {
+      await expect(apiClient.getEntries()).rejects.toBeInstanceOf(SchemaValidationError);
+    });
+  });
+
+  test('@api Wrong-Typed Catalog Field Is Reported With Path, Expected And Actual', async ({ apiClient, mockApi, logger }) => {
+    const product = apiProducts.samsungGalaxyS6;
+
+    await test.step('Inject string price on /entries', async () => {
+      logger.step('Inject string price on /entries');
+      const body = { Items: [{ id: product.id, title: product.title, price: '360', cat: 'phone', desc: 'Samsung', img: 'imgs/galaxy_s6.jpg' }] };
+      mockApi!.injectFault({ path: ApiConstants.paths.entries, status: 200, body: JSON.stringify(body), times: 1 });
+    });
+
+    await test.step('API Test: Issue pinpoints the offending field', async () => {
+      const error = await apiClient.getEntries().then(() => null, (thrown: unknown) => thrown);
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect((error as SchemaValidationError).issues).toEqual([
+        { path: '$.Items[0].price', expected: 'number (>= 0)', actual: 'string "360"' },
+      ]);
+    });
+  });
+
+  test('@api Non-Object JSON Body Is Treated As Empty', async ({ apiClient, mockApi }) => {
+    await test.step('API Test: null, array and number bodies still get a first page', async () => {
+      const before = mockApi!.requests.length;
+      for (const raw of ['null', '[1]', '42']) {
+        const res = await apiClient.request.post(`${mockApi!.url}${ApiConstants.paths.pagination}`, {
+          data: raw,
+          headers: { 'Content-Type': ApiConstants.headers.jsonContentType },
+        });
+        expect(res.status(), `POST ${raw}`).toBe(200);
+        expect((await res.json() as { Items: unknown[] }).Items.length).toBeGreaterThan(0);
+      }
+      expect(mockApi!.requests.slice(before).map((record) => record.body)).toEqual([{}, {}, {}]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { DemoblazeApiClient } from '../../clients/DemoblazeApiClient';
+import { LatencySampler } from '../../clients/LatencySampler';
+
+test.describe('@api @regression API Tests: Per-Endpoint Latency Budgets', () => {
+  test.describe('Budgets', () => {
+    // Sampling fires hundreds of requests per endpoint: never a side effect of a plain run against the public API
+    test.beforeEach(async ({ mockApi }) => {
+      test.skip(!mockApi && process.env.LATENCY_BUDGETS !== 'true', 'Latency budgets run against API_BASE_URL=local, or the live API with LATENCY_BUDGETS=true');
+    });
+
+    for (const endpoint of DemoblazeApiClient.PROBE_ENDPOINTS) {
+      test(`@api Latency Budget: /${endpoint} p95/p99 within SLA`, async ({ apiClient, logger }, testInfo) => {
+        const report = await test.step(`API Test: Sample /${endpoint} latency`, async () => {
+          logger.step(`API Test: Sample /${endpoint} latency`);
+          return await apiClient.measureEndpointLatency(endpoint, { warmup: 2, samples: LatencySampler.P99_SAMPLES, concurrency: 4 });
+        });
+
+        await test.step('Attach latency report', async () => {
+          logger.info(`p50=${report.stats.p50}ms p95=${report.stats.p95}ms p99=${report.stats.p99}ms`);
+          await LatencySampler.attach(testInfo, [report]);
+        });
+
+        await test.step('Verify p95/p99 against budget', async () => {
+          apiClient.expectWithinLatencyBudget(report);
+        });
+      });
+    }
+  });
+
+  test('@api Latency Percentiles: Nearest-rank math over known samples', async () => {
+    const shuffled = (count: number) => Array.from({ length: count }, (_, i) => ((i * 37) % count) + 1);
+
+    await test.step('20 samples: p95 is the 19th value, not the max', async () => {
+      const stats = LatencySampler.computeStats(shuffled(20));
+      expect(stats).toEqual({ min: 1, mean: 10.5, p50: 10, p95: 19, p99: 20, max: 20 });
+    });
+
+    await test.step('100 samples: p99 is the 99th value, not the max', async () => {
+      const stats = LatencySampler.computeStats(shuffled(100));
+      expect(stats).toEqual({ min: 1, mean: 50.5, p50: 50, p95: 95, p99: 99, max: 100 });
+    });
+
+    await test.step('Single sample: every percentile is that sample', async () => {
+      expect(LatencySampler.percentile([42.25], 99)).toBe(42.3);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+
+test.describe('@ui E2E Tests: Per-Test Artifacts', () => {
+  test('@regression @ui Artifacts: Screenshots Are Written to the Test Output Directory', async ({
+    demoblazeHomePage,
+    artifacts,
+  }, testInfo) => {
+    await demoblazeHomePage.getProductCards();
+    await demoblazeHomePage.screenshot('home grid');
+
+    const screenshotPath = testInfo.outputPath('screenshots', 'home_grid.png');
+    expect(fs.existsSync(screenshotPath)).toBe(true);
+    expect(artifacts.records).toContainEqual({ kind: 'screenshots', name: 'home_grid', path: screenshotPath, contentType: 'image/png' });
+    expect(testInfo.attachments.map((attachment) => attachment.name)).toContain('home_grid');
+  });
+
+  test('@regression @ui Artifacts: Reports Are Saved as JSON and Markdown Files', async ({
+    artifacts,
+  }, testInfo) => {
+    const [json, markdown] = await artifacts.attachReport('sample-report', { checked: 3 }, '3 checked');
+
+    expect(JSON.parse(fs.readFileSync(json!.path, 'utf8'))).toEqual({ checked: 3 });
+    expect(fs.readFileSync(markdown!.path, 'utf8')).toBe('3 checked');
+    expect(testInfo.attachments.filter((attachment) => attachment.path).map((attachment) => attachment.name))
+      .toEqual(expect.arrayContaining(['sample-report.json', 'sample-report.md']));
+  });
+});
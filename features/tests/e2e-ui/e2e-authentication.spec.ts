@@ -0,0 +1,124 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { HarStore } from '../../utils/HarStore';
+
+test.describe('@ui E2E Tests: Authentication', () => {
+  const { authData, buildUniqueCredentials } = testData.auth;
+  // NETWORK_MODE=replay answers for the user a HAR was recorded with, so reuse its credentials
+  const uniqueCredentials = (harStore: HarStore | null) =>
+    harStore?.recordedValue('credentials', buildUniqueCredentials) ?? buildUniqueCredentials();
+
+  test('@ui Sign Up: New User Succeeds, Duplicate Is Rejected', async ({
+    demoblazeHomePage,
+    demoblazeAuthPage,
+    harStore,
+    logger,
+  }) => {
+    const credentials = uniqueCredentials(harStore);
+
+    await test.step('Step 1: Sign up a new user', async () => {
+      logger.info(`Signing up ${credentials.username}`);
+      const outcome = await demoblazeAuthPage.signup(credentials);
+      expect(outcome).toEqual({ success: true, message: authData.messages.signupSuccess });
+    });
+
+    await test.step('Step 2: Sign up the same user again', async () => {
+      logger.info('Repeating sign up with the same username');
+      const outcome = await demoblazeAuthPage.signup(credentials);
+      expect(outcome).toEqual({ success: false, message: authData.messages.userExists });
+    });
+
+    await demoblazeAuthPage.expectLoggedOut();
+  });
+
+  test('@smoke @ui Login and Logout: Welcome State Follows Session', async ({
+    demoblazeHomePage,
+    demoblazeAuthPage,
+    apiClient,
+    harStore,
+    logger,
+  }) => {
+    const credentials = uniqueCredentials(harStore);
+
+    await test.step('Setup: Register user via API', async () => {
+      logger.info(`Registering ${credentials.username} via API`);
+      const result = await apiClient.signup(credentials);
+      expect(result.data.success).toBe(true);
+    });
+
+    await test.step('Step 1: Log in through the modal', async () => {
+      const outcome = await demoblazeAuthPage.login(credentials);
+      expect(outcome.success).toBe(true);
+      await demoblazeAuthPage.expectLoggedInAs(credentials.username);
+      expect(await demoblazeAuthPage.getLoggedInUsername()).toBe(credentials.username);
+    });
+
+    await test.step('Step 2: Log out', async () => {
+      await demoblazeAuthPage.logout();
+      expect(await demoblazeAuthPage.getLoggedInUsername()).toBeNull();
+    });
+  });
+
+  test('@ui Login: Wrong Password and Unknown User Show Dialog Errors', async ({
+    demoblazeHomePage,
+    demoblazeAuthPage,
+    apiClient,
+    harStore,
+    logger,
+  }) => {
+    const credentials = uniqueCredentials(harStore);
+
+    await test.step('Setup: Register user via API', async () => {
+      const result = await apiClient.signup(credentials);
+      expect(result.data.success).toBe(true);
+    });
+
+    await test.step('Wrong password is rejected', async () => {
+      logger.info('Logging in with a wrong password');
+      const outcome = await demoblazeAuthPage.login({ ...credentials, password: authData.invalidPassword });
+      expect(outcome).toEqual({ success: false, message: authData.messages.wrongPassword });
+    });
+
+    await test.step('Unknown user is rejected', async () => {
+      logger.info('Logging in as a user that does not exist');
+      const outcome = await demoblazeAuthPage.login({ username: authData.invalidUsername, password: authData.invalidPassword });
+      expect(outcome).toEqual({ success: false, message: authData.messages.userNotFound });
+    });
+
+    await demoblazeAuthPage.expectLoggedOut();
+  });
+
+  test.describe('authenticated session', () => {
+    test.use({ authenticated: true });
+
+    test('@ui Authenticated Session: Starts Logged In and Owns the Cart', async ({
+      demoblazeHomePage,
+      demoblazeAuthPage,
+      authenticatedUser,
+      apiClient,
+      cartSeeder,
+      logger,
+    }) => {
+      const user = authenticatedUser!;
+      // Resolving the owner up front lets the cartSeeder teardown empty the shared user's cart even if a step fails
+      const owner = await cartSeeder.getOwner();
+
+      await test.step('Step 1: Page starts logged in via storageState', async () => {
+        await demoblazeAuthPage.expectLoggedInAs(user.credentials.username);
+      });
+
+      await test.step('Step 2: Add product as the logged-in user', async () => {
+        await demoblazeHomePage.addProductToCart(testData.home.products.samsungGalaxyS6);
+      });
+
+      await test.step('Step 3: Cart belongs to the user, not the guest cookie', async () => {
+        await expect.poll(async () => {
+          const cart = await apiClient.viewCart(owner);
+          return cart.data.Items.map((item) => item.prod_id);
+        }).toContain(testData.api.apiProducts.samsungGalaxyS6.id);
+        logger.info(`Cart line recorded for ${user.credentials.username}`);
+      });
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { test } from '../../fixtures';
+import { CatalogConsistencyChecker } from '../../utils/CatalogConsistency';
+
+test.describe('@ui @regression E2E Tests: Catalog Consistency', () => {
+  test('@ui Catalog: UI Listing, Categories and Details Match the API', async ({
+    demoblazeHomePage,
+    catalogConsistency,
+    logger,
+  }, testInfo) => {
+    const report = await test.step('Compare /entries, /bycat and /view with the rendered pages', async () => {
+      return await catalogConsistency.run();
+    });
+
+    await test.step('Attach per-product report', async () => {
+      logger.info(`Catalog consistency: ${report.mismatchCount} mismatch(es) across ${report.products.length} product(s)`);
+      await CatalogConsistencyChecker.attach(testInfo, report);
+    });
+
+    CatalogConsistencyChecker.expectConsistent(report);
+  });
+});
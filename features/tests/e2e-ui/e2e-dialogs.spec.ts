@@ -0,0 +1,42 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+
+test.describe('@ui E2E Tests: Native Dialogs', () => {
+  const { contactFormData } = testData.contact;
+
+  test('@ui Contact Form: Confirmation Dialog Is Claimed', async ({
+    demoblazeHomePage,
+    dialogs,
+    logger,
+  }) => {
+    await test.step('Step 1: Send a message', async () => {
+      await demoblazeHomePage.openContactModal();
+      await demoblazeHomePage.fillContactForm(contactFormData.email, contactFormData.name, contactFormData.message);
+      const message = await demoblazeHomePage.submitContactForm();
+      logger.info(`Contact confirmation: ${message}`);
+      expect(message).toBe('Thanks for the message!!');
+    });
+
+    await test.step('Step 2: Dialog was recorded with its page and answered', async () => {
+      expect(dialogs.records).toHaveLength(1);
+      expect(dialogs.records[0]).toMatchObject({ type: 'alert', action: 'accept', claimed: true });
+      expect(dialogs.records[0]!.url).toBe(demoblazeHomePage.page.url());
+      expect(dialogs.unexpected).toEqual([]);
+    });
+  });
+
+  test('@ui Dialog Policy: Confirm Can Be Dismissed', async ({
+    page,
+    demoblazeHomePage,
+    dialogs,
+  }) => {
+    dialogs.setPolicy('confirm', 'dismiss');
+
+    const answered = await page.evaluate(() => window.confirm('Leave the store?'));
+    expect(answered).toBe(false);
+
+    const record = await dialogs.expectNext('Leave the store?');
+    expect(record).toMatchObject({ type: 'confirm', action: 'dismiss' });
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { LocatorAuditor, LocatorExpectations } from '../../utils/LocatorAuditor';
+
+test.describe('@ui @regression E2E Tests: Locator Health', () => {
+  const { products } = testData.home;
+
+  test('@ui Locator Health: Every Declared Locator Resolves Unambiguously', async ({
+    demoblazeHomePage,
+    demoblazeAuthPage,
+    demoblazeProductPage,
+    demoblazeCartPage,
+    cartSeeder,
+    locatorAuditor,
+    logger,
+  }, testInfo) => {
+    // Deliberately absent outside their own state: buttons of closed modals are hidden (no accessible role),
+    // Add to cart only exists on the product page and no alert or order confirmation is open
+    const homeExpect: LocatorExpectations = {
+      productItems: 'many', productTitles: 'many', productCards: 'many', productCardImages: 'many',
+      loginButton: 0, contactSendButton: 0, addToCartButton: 0, alertBox: 0,
+    };
+    const authExpect: LocatorExpectations = { logoutLink: 0, signupButton: 0 };
+    const cartExpect: LocatorExpectations = {
+      cartItems: 'many', cartLineImages: 'many', deleteButtons: 'many',
+      purchaseButton: 0, alertBox: 0, successMessage: 0, confirmationDetails: 0,
+    };
+
+    await test.step('State: home page (logged out)', async () => {
+      await demoblazeHomePage.getProductCards();
+      await locatorAuditor.auditGroup('home', 'home', { expect: homeExpect });
+      await locatorAuditor.auditGroup('home', 'auth', { expect: authExpect });
+    });
+
+    await test.step('State: home page modals open', async () => {
+      const { login, contact } = demoblazeHomePage.modals;
+      await login.open();
+      await locatorAuditor.auditGroup('home: log in modal', 'home', { expect: { ...homeExpect, loginButton: 1 } });
+      await login.close();
+
+      await contact.open();
+      await locatorAuditor.auditGroup('home: contact modal', 'home', { expect: { ...homeExpect, contactSendButton: 1 } });
+      await contact.close();
+
+      await demoblazeAuthPage.modals.signUp.open();
+      await locatorAuditor.auditGroup('home: sign up modal', 'auth', { expect: { ...authExpect, signupButton: 1 } });
+      await demoblazeAuthPage.modals.signUp.close();
+    });
+
+    await test.step('State: product page', async () => {
+      await demoblazeHomePage.clickProduct(products.samsungGalaxyS6);
+      await demoblazeProductPage.getProductDetails();
+      await locatorAuditor.auditGroup('product', 'product');
+    });
+
+    await test.step('State: cart with one line', async () => {
+      await cartSeeder.seedAndOpen([testData.api.apiProducts.samsungGalaxyS6]);
+      await locatorAuditor.auditGroup('cart', 'cart', { expect: cartExpect });
+
+      await demoblazeCartPage.modals.order.open();
+      await locatorAuditor.auditGroup('cart: order modal', 'cart', { expect: { ...cartExpect, purchaseButton: 1 } });
+      await demoblazeCartPage.modals.order.close();
+    });
+
+    const report = locatorAuditor.report();
+    await test.step('Attach locator health report', async () => {
+      logger.info(`Locator health: ${JSON.stringify(report.summary)}; ${report.collisions.length} facade collision(s)`);
+      await LocatorAuditor.attach(testInfo, report);
+    });
+
+    await test.step('Facade collisions are detected', async () => {
+      expect(report.collisions.map((collision) => collision.name))
+        .toEqual(expect.arrayContaining(['homeLink', 'cartLink', 'addToCartButton']));
+    });
+
+    LocatorAuditor.expectHealthy(report);
+  });
+});
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import { expect } from '@playwright/test';
+import { test as base, logStep } from '../../fixtures';
+import { LogEntry, TestLogger } from '../../utils/TestLogger';
+
+// Logs while tearing down, like the dialogs, cartSeeder and locators fixtures
+const test = base.extend<{ teardownLogger: TestLogger }>({
+  teardownLogger: async ({ testLog: _testLog }, use) => {
+    const logger = new TestLogger('TeardownProbe');
+    await use(logger);
+    logger.warn('Torn down');
+  },
+});
+
+test.describe('@ui E2E Tests: Structured Test Logs', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  test('@regression @ui Logging: Entries Carry Test, Worker, Project and Step Context', async ({
+    demoblazeHomePage,
+    logger,
+  }, testInfo) => {
+    await logStep('Read the product grid', async () => {
+      logger.info(`Grid shows ${(await demoblazeHomePage.getProductCards()).length} product(s)`);
+    });
+
+    const entry = TestLogger.entries.find((candidate) => candidate.message.startsWith('Grid shows'));
+    expect(entry).toMatchObject({
+      level: 'info',
+      source: testInfo.title,
+      testId: testInfo.testId,
+      worker: testInfo.workerIndex,
+      project: testInfo.project.name,
+      step: 'Read the product grid',
+    });
+  });
+
+  test.describe('Teardown', () => {
+    // Per-test level; the probe logs at warn so its entry still passes the filter
+    test.use({ logLevel: 'warn' });
+
+    let logPath = '';
+    let testId = '';
+
+    test('@regression @ui Logging: Teardown Entries Land in test-log.jsonl', async ({ teardownLogger: _teardownLogger }, testInfo) => {
+      expect(TestLogger.level).toBe('warn');
+      logPath = testInfo.outputPath('logs', 'test-log.jsonl');
+      testId = testInfo.testId;
+    });
+
+    test.afterAll(() => {
+      const entries = fs.readFileSync(logPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line) as LogEntry);
+      expect(entries).toContainEqual(expect.objectContaining({ source: 'TeardownProbe', message: 'Torn down', testId }));
+    });
+  });
+});
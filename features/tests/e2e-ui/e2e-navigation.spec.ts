@@ -5,12 +5,6 @@ import { testData } from '../../data/demoblazeTestData';
 test.describe('@ui E2E Tests: Navigation & State Persistence', () => {
   const { products, categories } = testData.home;
 
-  test.beforeEach(async ({ page }) => {
-    page.on('dialog', async (dialog) => {
-      await dialog.accept();
-    });
-  });
-
   test('@smoke @ui Asynchronous Navigation: Laptops Category Filter', async ({
     page,
     demoblazeHomePage,
@@ -45,6 +39,31 @@ test.describe('@ui E2E Tests: Navigation & State Persistence', () => {
 
   });
 
+  test('@regression @ui Pagination: Full Catalog Matches the API', async ({
+    demoblazeHomePage,
+    apiClient,
+    logger,
+  }) => {
+    logger.step('E2E Test: Catalog Pagination');
+
+    const apiProducts = await test.step('Setup: Walk the catalog via the API', async () => {
+      return await apiClient.getAllProducts();
+    });
+
+    await test.step('Step 1: Walk every page with Next', async () => {
+      const uiProducts = await demoblazeHomePage.getAllProducts();
+      logger.info(`UI pages listed ${uiProducts.length} products, API listed ${apiProducts.length}`);
+      expect(uiProducts.map(({ id, title }) => ({ id, title })))
+        .toEqual(apiProducts.map(({ id, title }) => ({ id, title })));
+    });
+
+    await test.step('Step 2: Previous returns to the first page', async () => {
+      const firstPage = await demoblazeHomePage.goToPreviousPage();
+      const entries = await apiClient.getEntries();
+      expect(firstPage.map((card) => card.id)).toEqual(entries.data.Items.map((item) => item.id));
+    });
+  });
+
   test('@regression @ui State Persistency: Cart Survives Page Refresh', async ({
     page,
     demoblazeHomePage,
@@ -95,4 +114,65 @@ test.describe('@ui E2E Tests: Navigation & State Persistence', () => {
     logger.info('Cart Management: Multiple items verified');
 
   });
+
+  test('@ui Product Detail: Typed Details and Confirmed Add to Cart', async ({
+    demoblazeHomePage,
+    demoblazeProductPage,
+    apiClient,
+    cartSeeder,
+    logger,
+  }) => {
+    logger.step('E2E Test: Product detail extraction');
+    const { samsungGalaxyS6 } = testData.api.apiProducts;
+
+    await test.step('Step 1: Details match /view', async () => {
+      await demoblazeHomePage.clickProduct(products.samsungGalaxyS6);
+      const details = await demoblazeProductPage.getProductDetails();
+      const expected = (await apiClient.viewProduct(samsungGalaxyS6.id)).data;
+      expect(details).toMatchObject({
+        id: samsungGalaxyS6.id,
+        title: expected.title,
+        price: expected.price,
+        taxIncluded: true,
+      });
+      expect(details.description.replace(/\s+/g, ' ')).toBe(expected.desc.replace(/\s+/g, ' ').trim());
+      expect(details.imageUrl).toMatch(new RegExp(`${expected.img}$`));
+    });
+
+    await test.step('Step 2: Add to cart waits for /addtocart and the dialog', async () => {
+      const confirmation = await demoblazeProductPage.addToCartAndConfirm();
+      expect(confirmation).toEqual({ productId: samsungGalaxyS6.id, status: 200, message: 'Product added.' });
+
+      // The cart line exists as soon as the confirmation returns - no polling needed
+      const cart = await apiClient.viewCart(await cartSeeder.getOwner());
+      expect(cart.data.Items.map((item) => item.prod_id)).toContain(samsungGalaxyS6.id);
+    });
+
+  });
+
+  test('@regression @ui Cart Management: Delete Line Reconciles Total', async ({
+    cartSeeder,
+    demoblazeCartPage,
+    logger,
+  }) => {
+    logger.step('E2E Test: Cart Management - Line items and total reconciliation');
+
+    await test.step('Step 1: Seed two products via API and open cart', async () => {
+      const { apiProducts } = testData.api;
+      await cartSeeder.seedAndOpen([apiProducts.samsungGalaxyS6, apiProducts.nokiaLumia1520]);
+    });
+
+    await test.step('Step 2: Total equals the sum of line prices', async () => {
+      const lines = await demoblazeCartPage.expectTotalMatchesLines();
+      expect(lines.map((line) => line.title).sort()).toEqual([products.nokiaLumia1520, products.samsungGalaxyS6].sort());
+      logger.info(`Cart lines: ${lines.map((line) => `${line.title} ($${line.price})`).join(', ')}`);
+    });
+
+    await test.step('Step 3: Delete one line and reconcile again', async () => {
+      await demoblazeCartPage.deleteItemByName(products.samsungGalaxyS6);
+      const lines = await demoblazeCartPage.expectTotalMatchesLines();
+      expect(lines.map((line) => line.title)).toEqual([products.nokiaLumia1520]);
+    });
+
+  });
 });
\ No newline at end of file
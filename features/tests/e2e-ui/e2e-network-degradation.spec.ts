@@ -0,0 +1,109 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+import { ApiConstants } from '../../clients/ApiConstants';
+
+test.describe('@ui E2E Tests: Degraded Network Scenarios', () => {
+  const { products, categories } = testData.home;
+
+  test.describe('empty catalog', () => {
+    test.use({ networkScenario: 'emptyCatalog' });
+
+    test('@ui Home page renders no products when the catalog is empty', async ({
+      demoblazeHomePage,
+      network,
+      logger,
+    }) => {
+      logger.step('E2E Test: Empty catalog');
+
+      await network.waitForHit(ApiConstants.paths.entries);
+      await expect(demoblazeHomePage.productItems).toHaveCount(0);
+      logger.info('Empty catalog rendered without products');
+    });
+  });
+
+  test.describe('malformed catalog', () => {
+    test.use({ networkScenario: 'malformedCatalog' });
+
+    test('@ui Home page survives a malformed /entries payload', async ({
+      demoblazeHomePage,
+      network,
+      logger,
+    }) => {
+      logger.step('E2E Test: Malformed catalog JSON');
+
+      await network.waitForHit(ApiConstants.paths.entries);
+      await expect(demoblazeHomePage.productItems).toHaveCount(0);
+      await expect(demoblazeHomePage.cartLink).toBeVisible();
+      logger.info('Navigation stays usable after malformed catalog response');
+    });
+  });
+
+  test.describe('slow catalog', () => {
+    test.use({ networkScenario: 'slowCatalog' });
+
+    test('@ui Category filter waits out a slow catalog response', async ({
+      demoblazeHomePage,
+      network,
+      logger,
+    }) => {
+      logger.step('E2E Test: Slow catalog');
+
+      const productCount = await demoblazeHomePage.filterByCategory(categories.laptops);
+      expect(network.hits.some((hit) => hit.path === ApiConstants.paths.byCategory)).toBe(true);
+      expect(productCount).toBeGreaterThan(0);
+      logger.info(`Slow catalog eventually rendered ${productCount} laptops`);
+    });
+  });
+
+  test('@ui Add to cart failure leaves the cart empty', async ({
+    page,
+    demoblazeHomePage,
+    demoblazeCartPage,
+    network,
+    dialogs,
+    logger,
+  }) => {
+    logger.step('E2E Test: /addtocart returns 500');
+
+    // Whether the storefront reports the failure in an alert is not what this test checks
+    dialogs.allow(/something went wrong/i);
+    // Applied after the catalog loads: the scenario only needs to cover the cart call
+    await network.apply('addToCartServerError');
+    await demoblazeHomePage.clickProduct(products.samsungGalaxyS6);
+    await demoblazeHomePage.addToCartButton.click();
+    await network.waitForHit(ApiConstants.paths.addToCart);
+
+    const cartLoaded = page.waitForResponse((response) => response.url().endsWith(ApiConstants.paths.viewCart));
+    await demoblazeHomePage.goToCart();
+    await cartLoaded;
+    expect(await demoblazeCartPage.getCartItemCount()).toBe(0);
+    logger.info('Failed add-to-cart did not create a cart line');
+  });
+
+  test.describe('view timeout', () => {
+    // Short hold so the abort happens well within the test timeout
+    test.use({ networkTimeoutHoldMs: 1500 });
+
+    test('@ui Product page stays blank after /view times out', async ({
+      page,
+      demoblazeHomePage,
+      demoblazeProductPage,
+      network,
+      logger,
+    }) => {
+      logger.step('E2E Test: /view timeout');
+
+      await network.apply('viewTimeout');
+      const viewFailed = page.waitForEvent('requestfailed', (request) => request.url().endsWith(ApiConstants.paths.view));
+      await demoblazeHomePage.clickProduct(products.samsungGalaxyS6);
+      await network.waitForHit(ApiConstants.paths.view);
+
+      const failedRequest = await viewFailed;
+      // The error text is browser-specific (Chromium: net::ERR_TIMED_OUT), so only its presence is checked
+      expect(failedRequest.failure()).not.toBeNull();
+      await expect(demoblazeProductPage.productTitle).toHaveText('');
+      logger.info('Product details are not rendered after /view timed out');
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { test } from '../../fixtures';
+import { testData } from '../../data/demoblazeTestData';
+
+test.describe('@ui @visual E2E Tests: Visual Regression', () => {
+  const { apiProducts } = testData.api;
+
+  test.beforeEach(async ({ storefrontServer, browserName }) => {
+    test.skip(!storefrontServer, 'Visual baselines are recorded against the offline replica (BASE_URL=local)');
+    test.skip(browserName !== 'chromium', 'Visual baselines are only committed for chromium');
+  });
+
+  test('@ui @visual Visual: Home Page Matches Baseline', async ({ demoblazeHomePage }) => {
+    await demoblazeHomePage.getProductCards();
+    await demoblazeHomePage.expectVisualMatch('home');
+  });
+
+  test('@ui @visual Visual: Product Page Matches Baseline', async ({ demoblazeProductPage }) => {
+    await demoblazeProductPage.openProduct(apiProducts.samsungGalaxyS6.id);
+    await demoblazeProductPage.expectVisualMatch('product-samsung-galaxy-s6');
+  });
+
+  test('@ui @visual Visual: Cart With Two Items Matches Baseline', async ({ cartSeeder }) => {
+    const cartPage = await cartSeeder.seedAndOpen([apiProducts.samsungGalaxyS6, apiProducts.nokiaLumia1520]);
+    await cartPage.expectVisualMatch('cart-with-2-items');
+  });
+});
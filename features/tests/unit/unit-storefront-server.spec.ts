@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { StorefrontServer } from '../../mocks/StorefrontServer';
+
+test.describe('@regression Unit Tests: StorefrontServer Request Handling', () => {
+  let server: StorefrontServer;
+  let rootDir: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    rootDir = testInfo.outputPath('storefront');
+    fs.mkdirSync(rootDir, { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'index.html'), '<h1>PRODUCT STORE</h1>');
+    fs.mkdirSync(`${rootDir}-x`, { recursive: true });
+    fs.writeFileSync(path.join(`${rootDir}-x`, 'secret.txt'), 'outside the root');
+
+    server = new StorefrontServer('http://127.0.0.1:1', rootDir);
+    await server.start();
+  });
+
+  test.afterEach(async () => {
+    await server.stop();
+  });
+
+  test('@regression Malformed Escape: Answered With 400 Instead of Crashing', async ({ playwright }) => {
+    const request = await playwright.request.newContext();
+    try {
+      expect((await request.get(`${server.url}/%E0%A4%A`)).status()).toBe(400);
+      expect((await request.get(server.homeUrl)).status()).toBe(200);
+    } finally {
+      await request.dispose();
+    }
+  });
+
+  test('@regression Path Containment: A Sibling Directory Sharing the Root Prefix Is Not Served', async ({ playwright }) => {
+    const request = await playwright.request.newContext();
+    try {
+      // %2F survives URL normalisation, so the decoded path resolves to <root>-x/secret.txt
+      const res = await request.get(`${server.url}/..%2F${path.basename(rootDir)}-x%2Fsecret.txt`);
+      expect(res.status()).toBe(404);
+    } finally {
+      await request.dispose();
+    }
+  });
+});
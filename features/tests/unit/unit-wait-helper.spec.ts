@@ -0,0 +1,74 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures';
+import { WaitHelper, WaitTimeoutError } from '../../utils/WaitHelper';
+
+test.describe('@regression Unit Tests: WaitHelper Polling and Retries', () => {
+  test('@regression Wait Timeout: Error Reports Last Value, Attempts and Elapsed Time', async () => {
+    let polls = 0;
+    const error = await WaitHelper.waitForValue(
+      async () => ({ rows: ++polls }),
+      (snapshot) => snapshot.rows > 1000,
+      300,
+      50,
+      { description: 'Cart rows reach 1000' }
+    ).then(() => null, (thrown: unknown) => thrown);
+
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    const timeout = error as WaitTimeoutError;
+    expect(timeout.attempts).toBe(polls);
+    expect(timeout.attempts).toBeGreaterThan(1);
+    expect(timeout.lastValue).toEqual({ rows: polls });
+    expect(timeout.elapsedMs).toBeGreaterThanOrEqual(300);
+    expect(timeout.message).toBe(
+      `Cart rows reach 1000 not met within 300ms (${polls} attempt(s), ${timeout.elapsedMs}ms elapsed, last value: {"rows":${polls}})`
+    );
+  });
+
+  test('@regression Retry: retryOn Returning False Rethrows the First Failure', async () => {
+    const failure = new Error('HTTP 400');
+    let calls = 0;
+
+    await expect(WaitHelper.retryOperation(
+      async () => {
+        calls++;
+        throw failure;
+      },
+      5,
+      { initialDelayMs: 10, retryOn: () => false }
+    )).rejects.toBe(failure);
+    expect(calls).toBe(1);
+  });
+
+  test('@regression Abort: An Aborted Signal Rejects With Its Reason', async () => {
+    await test.step('While polling', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Page closed');
+      setTimeout(() => controller.abort(reason), 100);
+
+      await expect(WaitHelper.waitForCondition(async () => false, 5000, 20, { signal: controller.signal })).rejects.toBe(reason);
+    });
+
+    await test.step('While backing off between retries', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Test finished');
+      setTimeout(() => controller.abort(reason), 100);
+
+      await expect(WaitHelper.retryOperation(
+        async () => {
+          throw new Error('still failing');
+        },
+        5,
+        { initialDelayMs: 5000, signal: controller.signal }
+      )).rejects.toBe(reason);
+    });
+  });
+
+  test('@regression Backoff: Delay Grows by the Factor and Is Capped at maxDelayMs', async () => {
+    const options = { initialDelayMs: 100, maxDelayMs: 1000, backoffFactor: 2, jitterRatio: 0 };
+    expect([1, 2, 3, 4, 5, 10].map((attempt) => WaitHelper.backoffDelay(attempt, options))).toEqual([100, 200, 400, 800, 1000, 1000]);
+
+    const jittered = Array.from({ length: 50 }, () => WaitHelper.backoffDelay(10, { ...options, jitterRatio: 0.2 }));
+    expect(Math.min(...jittered)).toBeGreaterThanOrEqual(800);
+    expect(Math.max(...jittered)).toBeLessThanOrEqual(1200);
+  });
+});
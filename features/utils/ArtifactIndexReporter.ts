@@ -0,0 +1,101 @@
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ArtifactIndexReporter - Run-level artifacts-index.json mapping each test id to its artifact files
+ *
+ * Every attachment of every attempt (screenshots and visual diffs, a11y exports and reports written through
+ * ArtifactStore, Playwright traces and videos) is listed under its test id: file attachments by path,
+ * body-only attachments (dialogs.json, locator-fallbacks.json...) by name. The attempt's stdout/stderr is
+ * written to logs/<test id>-<retry>.log next to the index, so console output can be traced back as well.
+ */
+
+export interface ArtifactAttempt {
+  retry: number;
+  status: TestResult['status'];
+  screenshots: string[];
+  a11y: string[];
+  reports: string[];
+  traces: string[];
+  videos: string[];
+  logs: string[];
+  other: string[];
+}
+
+export interface ArtifactIndexEntry {
+  title: string;
+  project: string;
+  file: string;
+  attempts: ArtifactAttempt[];
+}
+
+export interface ArtifactIndex {
+  generatedAt: string;
+  tests: Record<string, ArtifactIndexEntry>;
+}
+
+export interface ArtifactIndexReporterOptions {
+  outputFile?: string;
+}
+
+type ArtifactCategory = Exclude<keyof ArtifactAttempt, 'retry' | 'status'>;
+
+export default class ArtifactIndexReporter implements Reporter {
+  private tests: Record<string, ArtifactIndexEntry> = {};
+  private outputFile: string;
+  private rootDir = process.cwd();
+
+  constructor(options: ArtifactIndexReporterOptions = {}) {
+    this.outputFile = path.resolve(options.outputFile ?? 'test-results/artifacts-index.json');
+  }
+
+  onBegin(config: FullConfig): void {
+    this.rootDir = config.rootDir;
+  }
+
+  private static categorize(attachment: TestResult['attachments'][number]): ArtifactCategory {
+    // Playwright copies path attachments into <outputDir>/attachments/, so only name, type and extension survive
+    if (attachment.name === 'trace') return 'traces';
+    if (attachment.contentType.startsWith('video/')) return 'videos';
+    if (attachment.name.startsWith('a11y')) return 'a11y';
+    if (attachment.contentType.startsWith('image/')) return 'screenshots';
+    if (attachment.contentType === 'text/plain' || /\.(log|jsonl)$/.test(attachment.path ?? attachment.name)) return 'logs';
+    if (attachment.contentType === 'application/json' || attachment.contentType === 'text/markdown') return 'reports';
+    return 'other';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attempt: ArtifactAttempt = { retry: result.retry, status: result.status, screenshots: [], a11y: [], reports: [], traces: [], videos: [], logs: [], other: [] };
+    for (const attachment of result.attachments) {
+      // Body-only attachments live in the report itself, so the name is their only handle
+      const entry = attachment.path ? path.relative(this.rootDir, attachment.path) : attachment.name;
+      attempt[ArtifactIndexReporter.categorize(attachment)].push(entry);
+    }
+
+    const output = [...result.stdout, ...result.stderr].map((chunk) => chunk.toString()).join('');
+    if (output.length > 0) {
+      const logPath = path.join(path.dirname(this.outputFile), 'logs', `${test.id}-${result.retry}.log`);
+      fs.mkdirSync(path.dirname(logPath), { recursive: true });
+      fs.writeFileSync(logPath, output);
+      attempt.logs.push(path.relative(this.rootDir, logPath));
+    }
+
+    const entry = this.tests[test.id] ?? {
+      title: test.titlePath().slice(3).join(' > '),
+      project: test.parent.project()?.name ?? '',
+      file: path.relative(this.rootDir, test.location.file),
+      attempts: [],
+    };
+    entry.attempts.push(attempt);
+    this.tests[test.id] = entry;
+  }
+
+  onEnd(): void {
+    if (Object.keys(this.tests).length === 0) return;
+
+    const index: ArtifactIndex = { generatedAt: new Date().toISOString(), tests: this.tests };
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(index, null, 2));
+  }
+}
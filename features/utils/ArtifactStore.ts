@@ -0,0 +1,84 @@
+import { TestInfo, test } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ArtifactStore - Per-test artifact files under testInfo.outputPath()
+ *
+ * Screenshots, accessibility exports, JSON/Markdown reports and other files are written into the running test's own output
+ * directory (unique per test, project and retry, so parallel workers never collide) and attached to the
+ * report by path. ArtifactIndexReporter later maps every test id to these files, traces, videos and logs.
+ */
+
+export type ArtifactKind = 'screenshots' | 'a11y' | 'reports' | 'logs' | 'other';
+
+export interface ArtifactRecord {
+  kind: ArtifactKind;
+  name: string;
+  path: string;
+  contentType: string;
+}
+
+export class ArtifactStore {
+  private static stores = new WeakMap<TestInfo, ArtifactStore>();
+
+  readonly records: ArtifactRecord[] = [];
+
+  private constructor(private testInfo: TestInfo) {}
+
+  /**
+   * Store of the given (default: currently running) test; page objects and fixtures share one per test
+   */
+  static for(testInfo: TestInfo = test.info()): ArtifactStore {
+    let store = ArtifactStore.stores.get(testInfo);
+    if (!store) {
+      store = new ArtifactStore(testInfo);
+      ArtifactStore.stores.set(testInfo, store);
+    }
+    return store;
+  }
+
+  /**
+   * Directory for one kind of artifact inside the test's output directory (created on demand)
+   */
+  dir(kind: ArtifactKind): string {
+    const directory = this.testInfo.outputPath(kind);
+    fs.mkdirSync(directory, { recursive: true });
+    return directory;
+  }
+
+  path(kind: ArtifactKind, fileName: string): string {
+    return path.join(this.dir(kind), fileName);
+  }
+
+  /**
+   * Attach an artifact file that already exists (e.g. written by page.screenshot({ path }))
+   */
+  async attach(kind: ArtifactKind, filePath: string, contentType: string, name: string = path.basename(filePath)): Promise<ArtifactRecord> {
+    const record: ArtifactRecord = { kind, name, path: filePath, contentType };
+    await this.testInfo.attach(name, { path: filePath, contentType });
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * Write an artifact file and attach it
+   */
+  async save(kind: ArtifactKind, fileName: string, body: string | Buffer, contentType: string): Promise<ArtifactRecord> {
+    const filePath = this.path(kind, fileName);
+    fs.writeFileSync(filePath, body);
+    return await this.attach(kind, filePath, contentType);
+  }
+
+  /**
+   * Save a report as <name>.json plus its <name>.md summary and attach both
+   */
+  async attachReport(name: string, report: unknown, markdown: string): Promise<ArtifactRecord[]> {
+    return [
+      await this.save('reports', `${name}.json`, JSON.stringify(report, null, 2), 'application/json'),
+      await this.save('reports', `${name}.md`, markdown, 'text/markdown'),
+    ];
+  }
+}
+
+export default ArtifactStore;
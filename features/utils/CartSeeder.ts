@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import { BrowserContext } from '@playwright/test';
+import { DemoblazeApiClient } from '../clients/DemoblazeApiClient';
+import { AuthenticatedUser } from '../clients/AuthSession';
+import { CartItem, CartOwner } from '../clients/ApiTypes';
+import { DemoblazeCartPage } from '../pages/DemoblazeCartPage';
+import { TestLogger } from './TestLogger';
+
+/**
+ * CartSeeder - Populates the browser's cart through the API instead of the UI
+ *
+ * Items are added with /addtocart for the same owner the storefront uses: the logged-in user's
+ * token, or the guest `user` cookie of the browser context (planted if the page has not set one yet).
+ * reset() empties that cart with /deletecart; the cartSeeder fixture calls it on teardown.
+ */
+
+export type SeedProduct = number | { readonly id: number };
+
+export class CartSeeder {
+  static readonly GUEST_COOKIE = 'user';
+
+  readonly seeded: CartItem[] = [];
+  private owner: CartOwner | null = null;
+  private logger = new TestLogger('CartSeeder');
+
+  constructor(
+    private apiClient: DemoblazeApiClient,
+    private context: BrowserContext,
+    private cartPage: DemoblazeCartPage,
+    private storefrontUrl: string,
+    private user: AuthenticatedUser | null = null
+  ) {}
+
+  /**
+   * Cart owner shared by the API calls and the browser context
+   */
+  async getOwner(): Promise<CartOwner> {
+    if (this.owner) return this.owner;
+    if (this.user) {
+      this.owner = this.user.cartOwner;
+      return this.owner;
+    }
+
+    const cookies = await this.context.cookies(this.storefrontUrl);
+    let guestId = cookies.find((cookie) => cookie.name === CartSeeder.GUEST_COOKIE)?.value;
+    if (!guestId) {
+      guestId = randomUUID();
+      await this.context.addCookies([{ name: CartSeeder.GUEST_COOKIE, value: guestId, url: new URL('/', this.storefrontUrl).href }]);
+    }
+    this.owner = { cookie: guestId, flag: false };
+    return this.owner;
+  }
+
+  /**
+   * Add products to the cart via /addtocart
+   * @param products - Product ids (or objects with an id, e.g. testData.api.apiProducts entries)
+   * @returns Created cart items
+   * @throws Error when the API rejects an item
+   */
+  async seed(products: readonly SeedProduct[]): Promise<CartItem[]> {
+    const owner = await this.getOwner();
+    const added: CartItem[] = [];
+    for (const product of products) {
+      const productId = typeof product === 'number' ? product : product.id;
+      const result = await this.apiClient.addToCart(owner, productId);
+      if (!result.ok) {
+        throw new Error(`Seeding product ${productId} failed: HTTP ${result.status}`);
+      }
+      added.push(result.data);
+    }
+    this.seeded.push(...added);
+    this.logger.info(`Seeded ${added.length} item(s) for ${owner.flag ? 'user' : 'guest'} ${owner.cookie}`);
+    return added;
+  }
+
+  /**
+   * Navigate to the cart page and wait for the seeded lines to render
+   * @returns Cart page object ready for assertions
+   */
+  async openCart(): Promise<DemoblazeCartPage> {
+    await this.cartPage.page.goto(new URL('cart.html', this.storefrontUrl).href, { waitUntil: 'domcontentloaded' });
+    await this.cartPage.getCartLines();
+    return this.cartPage;
+  }
+
+  /**
+   * Seed products and open the populated cart page
+   */
+  async seedAndOpen(products: readonly SeedProduct[]): Promise<DemoblazeCartPage> {
+    await this.seed(products);
+    return await this.openCart();
+  }
+
+  /**
+   * Empty the owner's cart via /deletecart (no-op when nothing was resolved)
+   */
+  async reset(): Promise<void> {
+    if (!this.owner) return;
+    await this.apiClient.deleteCart(this.owner.cookie);
+    this.seeded.length = 0;
+  }
+}
+
+export default CartSeeder;
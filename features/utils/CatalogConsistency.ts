@@ -0,0 +1,220 @@
+import { TestInfo, expect } from '@playwright/test';
+import { DemoblazeApiClient } from '../clients/DemoblazeApiClient';
+import { ApiConstants } from '../clients/ApiConstants';
+import { ApiCategory, Product } from '../clients/ApiTypes';
+import { DemoblazeHomePage, ProductCard } from '../pages/DemoblazeHomePage';
+import { DemoblazeProductPage } from '../pages/DemoblazeProductPage';
+import { TestLogger } from './TestLogger';
+import { ArtifactStore } from './ArtifactStore';
+
+/**
+ * CatalogConsistency - Diffs the catalog served by the API against what the storefront renders
+ *
+ * The API side is read through DemoblazeApiClient (/entries, /bycat, /view); the UI side is scraped
+ * through DemoblazeHomePage (listing and category filters) and DemoblazeProductPage (detail page).
+ * Titles, prices, descriptions and category membership are compared per product id and collected into
+ * a report that can be attached to the test as JSON and Markdown.
+ */
+
+export type CatalogView = 'listing' | 'category' | 'detail';
+export type CatalogField = 'presence' | 'title' | 'price' | 'description' | 'category';
+export type UiCategory = 'Phones' | 'Laptops' | 'Monitors';
+
+export interface CatalogMismatch {
+  view: CatalogView;
+  field: CatalogField;
+  api: string;
+  ui: string;
+}
+
+export interface ProductConsistency {
+  id: number;
+  title: string;
+  /** Views in which this product was compared */
+  checked: CatalogView[];
+  mismatches: CatalogMismatch[];
+}
+
+export interface CatalogConsistencyReport {
+  checkedAt: string;
+  categories: UiCategory[];
+  products: ProductConsistency[];
+  mismatchCount: number;
+}
+
+export interface CatalogConsistencyOptions {
+  /** Category filters to compare against /bycat (default: all three) */
+  categories?: readonly UiCategory[];
+  /** Compare at most this many listed products against /view and the detail page (default: all listed) */
+  detailLimit?: number;
+}
+
+export class CatalogConsistencyChecker {
+  static readonly CATEGORY_KEYS: Record<UiCategory, ApiCategory> = {
+    Phones: ApiConstants.categories.phones,
+    Laptops: ApiConstants.categories.laptops,
+    Monitors: ApiConstants.categories.monitors,
+  };
+
+  private products = new Map<number, ProductConsistency>();
+  private logger = new TestLogger('CatalogConsistency');
+
+  constructor(
+    private apiClient: DemoblazeApiClient,
+    private homePage: DemoblazeHomePage,
+    private productPage: DemoblazeProductPage
+  ) {}
+
+  /**
+   * Run every comparison. Expects the home page to be open; leaves the browser on a product page.
+   * @returns Per-product report (products without mismatches are included with an empty list)
+   */
+  async run(options: CatalogConsistencyOptions = {}): Promise<CatalogConsistencyReport> {
+    this.products.clear();
+    const categories = [...(options.categories ?? Object.keys(CatalogConsistencyChecker.CATEGORY_KEYS) as UiCategory[])];
+
+    const listed = await this.compareListing();
+    for (const category of categories) {
+      await this.compareCategory(category);
+    }
+    const detailIds = listed.map((product) => product.id).slice(0, options.detailLimit ?? listed.length);
+    for (const id of detailIds) {
+      await this.compareDetail(id);
+    }
+
+    const products = [...this.products.values()].sort((a, b) => a.id - b.id);
+    const mismatchCount = products.reduce((sum, product) => sum + product.mismatches.length, 0);
+    this.logger.info(`Compared ${products.length} product(s), ${mismatchCount} mismatch(es)`);
+    return { checkedAt: new Date().toISOString(), categories, products, mismatchCount };
+  }
+
+  /**
+   * /entries (first page) vs the home page grid
+   * @returns API products of the first page
+   */
+  async compareListing(): Promise<Product[]> {
+    const entries = await this.apiClient.getEntries();
+    expect(entries.ok, `/entries returned HTTP ${entries.status}`).toBe(true);
+    const cards = await this.homePage.getProductCards();
+
+    this.comparePresence('listing', entries.data.Items, cards);
+    for (const product of entries.data.Items) {
+      const card = cards.find((candidate) => candidate.id === product.id);
+      if (card) this.compareFields('listing', product, card);
+    }
+    return entries.data.Items;
+  }
+
+  /**
+   * /bycat vs the grid shown after clicking the category filter
+   */
+  async compareCategory(category: UiCategory): Promise<void> {
+    const key = CatalogConsistencyChecker.CATEGORY_KEYS[category];
+    const byCategory = await this.apiClient.getProductsByCategory(key);
+    expect(byCategory.ok, `/bycat ${key} returned HTTP ${byCategory.status}`).toBe(true);
+    await this.homePage.filterByCategory(category);
+    const cards = await this.homePage.getProductCards();
+
+    for (const product of byCategory.data.Items) {
+      const entry = this.track(product.id, product.title, 'category');
+      if (product.cat !== key) {
+        entry.mismatches.push({ view: 'category', field: 'category', api: `${product.cat} (listed under ${key})`, ui: category });
+      }
+      if (!cards.some((card) => card.id === product.id)) {
+        entry.mismatches.push({ view: 'category', field: 'category', api: key, ui: `missing from ${category}` });
+      }
+    }
+    for (const card of cards) {
+      if (!byCategory.data.Items.some((product) => product.id === card.id)) {
+        this.track(card.id, card.title, 'category').mismatches.push({ view: 'category', field: 'category', api: `not in ${key}`, ui: category });
+      }
+    }
+  }
+
+  /**
+   * /view vs the product detail page
+   */
+  async compareDetail(productId: number): Promise<void> {
+    const detail = await this.apiClient.viewProduct(productId);
+    expect(detail.ok, `/view ${productId} returned HTTP ${detail.status}`).toBe(true);
+    await this.productPage.openProduct(productId);
+    this.compareFields('detail', detail.data, await this.productPage.getProductDetails());
+  }
+
+  private comparePresence(view: CatalogView, products: Product[], cards: ProductCard[]): void {
+    for (const product of products) {
+      if (!cards.some((card) => card.id === product.id)) {
+        this.track(product.id, product.title, view).mismatches.push({ view, field: 'presence', api: 'present', ui: 'missing' });
+      }
+    }
+    for (const card of cards) {
+      if (!products.some((product) => product.id === card.id)) {
+        this.track(card.id, card.title, view).mismatches.push({ view, field: 'presence', api: 'missing', ui: 'present' });
+      }
+    }
+  }
+
+  private compareFields(view: CatalogView, product: Product, ui: ProductCard): void {
+    const entry = this.track(product.id, product.title, view);
+    const normalize = CatalogConsistencyChecker.normalizeText;
+    if (normalize(product.title) !== normalize(ui.title)) {
+      entry.mismatches.push({ view, field: 'title', api: product.title, ui: ui.title });
+    }
+    if (product.price !== ui.price) {
+      entry.mismatches.push({ view, field: 'price', api: String(product.price), ui: String(ui.price) });
+    }
+    if (normalize(product.desc) !== normalize(ui.description)) {
+      entry.mismatches.push({ view, field: 'description', api: normalize(product.desc), ui: normalize(ui.description) });
+    }
+  }
+
+  private track(id: number, title: string, view: CatalogView): ProductConsistency {
+    let entry = this.products.get(id);
+    if (!entry) {
+      entry = { id, title, checked: [], mismatches: [] };
+      this.products.set(id, entry);
+    }
+    if (!entry.checked.includes(view)) entry.checked.push(view);
+    return entry;
+  }
+
+  // =========================================================================
+  // REPORTING
+  // =========================================================================
+
+  /**
+   * Assert the report has no mismatches; the failure message lists them per product
+   */
+  static expectConsistent(report: CatalogConsistencyReport): void {
+    const failing = report.products.filter((product) => product.mismatches.length > 0);
+    expect(failing, CatalogConsistencyChecker.toMarkdown(report)).toEqual([]);
+  }
+
+  static toMarkdown(report: CatalogConsistencyReport): string {
+    const header = '| Product | Title | Checked | View | Field | API | UI |';
+    const divider = '|---|---|---|---|---|---|---|';
+    const rows = report.products.flatMap((product) => {
+      const checked = product.checked.join(', ');
+      if (product.mismatches.length === 0) {
+        return [`| ${product.id} | ${product.title} | ${checked} | - | ok | - | - |`];
+      }
+      return product.mismatches.map((mismatch) =>
+        `| ${product.id} | ${product.title} | ${checked} | ${mismatch.view} | ${mismatch.field} | ${mismatch.api} | ${mismatch.ui} |`
+      );
+    });
+    return [`Catalog consistency: ${report.mismatchCount} mismatch(es) across ${report.products.length} product(s)`, '', header, divider, ...rows].join('\n');
+  }
+
+  /**
+   * Attach the report to the test as JSON and a Markdown table
+   */
+  static async attach(testInfo: TestInfo, report: CatalogConsistencyReport, attachmentName = 'catalog-consistency'): Promise<void> {
+    await ArtifactStore.for(testInfo).attachReport(attachmentName, report, CatalogConsistencyChecker.toMarkdown(report));
+  }
+
+  static normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
+
+export default CatalogConsistencyChecker;
@@ -0,0 +1,185 @@
+import { Page, Dialog, expect } from '@playwright/test';
+import { TestLogger } from './TestLogger';
+import { WaitHelper } from './WaitHelper';
+
+/**
+ * DialogManager - Single owner of the page's native alert/confirm/prompt dialogs
+ *
+ * Every dialog is recorded (type, message, page URL, timestamp) and answered straight away according to
+ * the per-type policy, so the page never blocks. Tests and page objects then claim recorded dialogs in
+ * order with expectNext()/waitFor(); a dialog that nobody claims or allow()s is reported as unexpected
+ * and fails the test when the dialogs fixture tears down.
+ */
+
+export type DialogType = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+export type DialogPolicy = 'accept' | 'dismiss';
+
+export interface DialogRecord {
+  type: DialogType;
+  message: string;
+  /** Page URL when the dialog opened */
+  url: string;
+  timestamp: string;
+  /** How the dialog was answered */
+  action: DialogPolicy;
+  /** Consumed by expectNext()/waitFor() or matched by allow() */
+  claimed: boolean;
+}
+
+export type DialogMatcher = RegExp | string | ((record: DialogRecord) => boolean);
+
+export interface DialogWaitOptions {
+  timeoutMs?: number;
+  /** Stop waiting (rejects) - e.g. when a competing success signal won a race */
+  signal?: AbortSignal;
+}
+
+interface DialogWaiter {
+  predicate: (record: DialogRecord) => boolean;
+  resolve: (record: DialogRecord) => void;
+  reject: (error: Error) => void;
+}
+
+export class DialogManager {
+  readonly records: DialogRecord[] = [];
+  private policies: Record<DialogType, DialogPolicy> = {
+    alert: 'accept',
+    confirm: 'accept',
+    prompt: 'accept',
+    beforeunload: 'accept',
+  };
+  private waiters: DialogWaiter[] = [];
+  private allowed: DialogMatcher[] = [];
+  private logger = new TestLogger('DialogManager');
+
+  constructor(readonly page: Page) {
+    this.page.on('dialog', this.onDialog);
+  }
+
+  private onDialog = async (dialog: Dialog): Promise<void> => {
+    const type = dialog.type() as DialogType;
+    const record: DialogRecord = {
+      type,
+      message: dialog.message(),
+      url: this.page.url(),
+      timestamp: new Date().toISOString(),
+      action: this.policies[type] ?? 'accept',
+      claimed: false,
+    };
+    // Answer before recording so the page is unblocked by the time anyone claims the dialog
+    await (record.action === 'accept' ? dialog.accept() : dialog.dismiss()).catch(() => undefined);
+    this.records.push(record);
+    this.logger.debug(`${record.type} "${record.message}" -> ${record.action}`);
+
+    const waiter = this.waiters.find((candidate) => candidate.predicate(record));
+    if (waiter) {
+      record.claimed = true;
+      waiter.resolve(record);
+    }
+  };
+
+  private static toPredicate(matcher: DialogMatcher): (record: DialogRecord) => boolean {
+    if (typeof matcher === 'function') return matcher;
+    if (typeof matcher === 'string') return (record) => record.message === matcher;
+    return (record) => matcher.test(record.message);
+  }
+
+  // =========================================================================
+  // POLICIES
+  // =========================================================================
+
+  setPolicy(type: DialogType, policy: DialogPolicy): void {
+    this.policies[type] = policy;
+  }
+
+  /**
+   * Tolerate dialogs matching this pattern without claiming them (never reported as unexpected)
+   */
+  allow(matcher: DialogMatcher): void {
+    this.allowed.push(matcher);
+  }
+
+  // =========================================================================
+  // CLAIMING
+  // =========================================================================
+
+  /**
+   * Claim the oldest unclaimed dialog matching the predicate, waiting for one if none was recorded yet
+   * @returns The claimed dialog record
+   * @throws Error on timeout or abort
+   */
+  async waitFor(predicate: (record: DialogRecord) => boolean, options: DialogWaitOptions = {}): Promise<DialogRecord> {
+    const recorded = this.records.find((record) => !record.claimed && predicate(record));
+    if (recorded) {
+      recorded.claimed = true;
+      return recorded;
+    }
+
+    const timeoutMs = options.timeoutMs ?? WaitHelper.DEFAULT_TIMEOUT_MS;
+    return await new Promise<DialogRecord>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.waiters = this.waiters.filter((candidate) => candidate !== waiter);
+      };
+      const waiter: DialogWaiter = {
+        predicate,
+        resolve: (record) => { settle(); resolve(record); },
+        reject: (error) => { settle(); reject(error); },
+      };
+      const onAbort = () => waiter.reject(new Error('Stopped waiting for a dialog'));
+      const timer = setTimeout(() => waiter.reject(new Error(`No matching dialog within ${timeoutMs}ms (recorded: ${this.describe(this.records)})`)), timeoutMs);
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Claim the next dialog and assert its message
+   * @param matcher - Expected message (exact string, pattern or predicate)
+   * @returns The claimed dialog record
+   */
+  async expectNext(matcher: DialogMatcher, options: DialogWaitOptions = {}): Promise<DialogRecord> {
+    const record = await this.waitFor(() => true, options);
+    const matches = DialogManager.toPredicate(matcher)(record);
+    expect(matches, `Next dialog "${record.message}" should match ${String(matcher)}`).toBe(true);
+    return record;
+  }
+
+  // =========================================================================
+  // REPORTING
+  // =========================================================================
+
+  /**
+   * Dialogs that were neither claimed nor allowed
+   */
+  get unexpected(): DialogRecord[] {
+    const allowed = this.allowed.map(DialogManager.toPredicate);
+    return this.records.filter((record) => !record.claimed && !allowed.some((isAllowed) => isAllowed(record)));
+  }
+
+  expectNoUnexpectedDialogs(): void {
+    expect.soft(this.unexpected, `Unexpected native dialogs: ${this.describe(this.unexpected)}`).toEqual([]);
+  }
+
+  /**
+   * Stop listening and reject anyone still waiting
+   */
+  dispose(): void {
+    this.page.off('dialog', this.onDialog);
+    for (const waiter of [...this.waiters]) {
+      waiter.reject(new Error('DialogManager disposed'));
+    }
+  }
+
+  private describe(records: DialogRecord[]): string {
+    return records.length === 0 ? 'none' : records.map((record) => `${record.type} "${record.message}"`).join(', ');
+  }
+}
+
+export default DialogManager;
@@ -0,0 +1,424 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { APIResponse, BrowserContext, Request, Route, TestInfo } from '@playwright/test';
+import { TestLogger } from './TestLogger';
+
+/**
+ * HarStore - HAR record-and-replay shared by browser traffic and the API client
+ *
+ * NETWORK_MODE=record captures every browser request and every BaseApiClient call into one
+ * HAR file per test (HAR_DIR/<spec>/<test>.har); replay serves them back and reports any
+ * request the file cannot answer instead of letting it reach the network. live (default) is a no-op.
+ */
+
+export type NetworkMode = 'record' | 'replay' | 'live';
+export type HarSource = 'ui' | 'api';
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text: string; encoding?: 'base64' };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** Which layer issued the request (custom HAR field) */
+  _source: HarSource;
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+    /** Values generated while recording (custom HAR field, see recordedValue()) */
+    _values?: Record<string, unknown>;
+  };
+}
+
+export interface ReplayRequest {
+  source: HarSource;
+  method: string;
+  url: string;
+  postData: string | null;
+  /** Browser resource type (image, fetch, document...); 'api' for client calls */
+  resourceType: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: HarHeader[];
+  body: Buffer;
+}
+
+export class HarReplayMissError extends Error {
+  constructor(readonly request: ReplayRequest, harPath: string) {
+    super(`No recorded response for ${request.method} ${request.url} in ${harPath}`);
+    this.name = 'HarReplayMissError';
+  }
+}
+
+const NETWORK_MODES: readonly NetworkMode[] = ['record', 'replay', 'live'];
+const TEXT_MIME = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|image\/svg\+xml)/i;
+// Bodies are stored decoded, so transport headers must not be replayed
+const HOP_BY_HOP_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection']);
+// Assets still loading when a recorded test ended; missing ones are reported but do not fail the test
+const COSMETIC_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Request body fields whose values are generated per run: cart owner cookies (guest UUID or auth token)
+// and cart item ids. Every other field must match the recording exactly (see recordedValue()).
+const RANDOM_FIELDS: Record<string, (value: unknown) => boolean> = {
+  cookie: (value) => typeof value === 'string',
+  id: (value) => typeof value === 'string' && UUID.test(value),
+};
+
+/**
+ * Request body with per-run random values replaced by a placeholder (non-JSON bodies are kept as they are)
+ */
+function normalizePostData(postData: string | null): string | null {
+  if (postData === null) return null;
+  let body: unknown;
+  try {
+    body = JSON.parse(postData);
+  } catch {
+    return postData;
+  }
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) return postData;
+  return JSON.stringify(Object.fromEntries(Object.entries(body).map(([key, value]) =>
+    [key, RANDOM_FIELDS[key]?.(value) ? '<random>' : value]
+  )));
+}
+
+/**
+ * APIResponse backed by a HAR entry (returned to BaseApiClient in replay mode)
+ */
+export class HarReplayResponse implements APIResponse {
+  private readonly payload: Buffer;
+
+  constructor(private entry: HarEntry) {
+    const { text, encoding } = entry.response.content;
+    this.payload = Buffer.from(text, encoding === 'base64' ? 'base64' : 'utf8');
+  }
+
+  async body(): Promise<Buffer> {
+    return this.payload;
+  }
+
+  async text(): Promise<string> {
+    return this.payload.toString('utf8');
+  }
+
+  /**
+   * Parsed body, untyped: narrow it with the schema validator (BaseApiClient.parseAs) like a live response
+   */
+  async json(): Promise<unknown> {
+    return JSON.parse(await this.text());
+  }
+
+  headers(): { [key: string]: string } {
+    return Object.fromEntries(this.entry.response.headers.map((h) => [h.name.toLowerCase(), h.value]));
+  }
+
+  headersArray(): HarHeader[] {
+    return this.entry.response.headers;
+  }
+
+  ok(): boolean {
+    return this.status() >= 200 && this.status() <= 299;
+  }
+
+  status(): number {
+    return this.entry.response.status;
+  }
+
+  statusText(): string {
+    return this.entry.response.statusText;
+  }
+
+  url(): string {
+    return this.entry.request.url;
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+}
+
+export class HarStore {
+  static readonly DEFAULT_DIR = 'features/hars';
+
+  readonly unmatched: ReplayRequest[] = [];
+  private entries: HarEntry[] = [];
+  private values: Record<string, unknown> = {};
+  private pending: Promise<void>[] = [];
+  // Replay cursors: repeated identical requests are answered in recorded order
+  private cursors = new Map<string, number>();
+  private logger = new TestLogger('HarStore');
+
+  /** Unmatched requests that should fail the test (everything except images, media and fonts) */
+  get blockingUnmatched(): ReplayRequest[] {
+    return this.unmatched.filter((request) => !COSMETIC_RESOURCE_TYPES.has(request.resourceType));
+  }
+
+  constructor(readonly mode: Exclude<NetworkMode, 'live'>, readonly harPath: string) {
+    if (mode === 'replay') {
+      if (!fs.existsSync(harPath)) {
+        throw new Error(`NETWORK_MODE=replay but no HAR recorded at ${harPath} - run once with NETWORK_MODE=record`);
+      }
+      const { log } = JSON.parse(fs.readFileSync(harPath, 'utf8')) as HarLog;
+      this.entries = log.entries;
+      this.values = log._values ?? {};
+    }
+  }
+
+  /**
+   * Read NETWORK_MODE (record | replay | live, default live)
+   * @throws Error for any other value
+   */
+  static resolveMode(value: string | undefined = process.env.NETWORK_MODE): NetworkMode {
+    const mode = (value || 'live').toLowerCase() as NetworkMode;
+    if (!NETWORK_MODES.includes(mode)) {
+      throw new Error(`Unknown NETWORK_MODE "${value}" - expected one of ${NETWORK_MODES.join(', ')}`);
+    }
+    return mode;
+  }
+
+  /**
+   * HAR location for a test: <HAR_DIR>/<spec file>/<describe + test title>.har
+   */
+  static pathFor(testInfo: TestInfo, harDir: string = process.env.HAR_DIR || HarStore.DEFAULT_DIR): string {
+    const spec = path.basename(testInfo.file).replace(/\.spec\.ts$/, '');
+    const slug = testInfo.titlePath.slice(1).join(' ')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 100);
+    return path.join(harDir, spec, `${slug}.har`);
+  }
+
+  /**
+   * Value generated per run (e.g. unique credentials): record mode generates it and stores it in the HAR,
+   * replay returns the recorded one so request bodies and responses line up with the recording
+   * @throws Error in replay mode when the HAR holds no value under that name
+   */
+  recordedValue<T>(name: string, generate: () => T): T {
+    if (this.mode === 'replay') {
+      if (!(name in this.values)) {
+        throw new Error(`No recorded value "${name}" in ${this.harPath} - run once with NETWORK_MODE=record`);
+      }
+      return this.values[name] as T;
+    }
+    const value = generate();
+    this.values[name] = value;
+    return value;
+  }
+
+  // =========================================================================
+  // BROWSER TRAFFIC
+  // =========================================================================
+
+  /**
+   * Record every finished browser request, or serve the context from the HAR
+   * @param context - BrowserContext to capture or route
+   */
+  async attachTo(context: BrowserContext): Promise<void> {
+    if (this.mode === 'record') {
+      context.on('requestfinished', (request) => {
+        this.pending.push(this.captureBrowserRequest(request));
+      });
+      return;
+    }
+    await context.route('**/*', (route, request) => this.replayBrowserRequest(route, request));
+  }
+
+  private async captureBrowserRequest(request: Request): Promise<void> {
+    const response = await request.response().catch(() => null);
+    if (!response) return;
+    const body = await response.body().catch(() => Buffer.alloc(0));
+    const headers = await response.headersArray().catch(() => []);
+    this.record('ui', request.method(), request.url(), request.postData(), {
+      status: response.status(),
+      statusText: response.statusText(),
+      headers,
+      body,
+    }, Math.max(0, request.timing().responseEnd));
+  }
+
+  private async replayBrowserRequest(route: Route, request: Request): Promise<void> {
+    const entry = this.match({ source: 'ui', method: request.method(), url: request.url(), postData: request.postData(), resourceType: request.resourceType() });
+    if (!entry) {
+      await route.abort('blockedbyclient');
+      return;
+    }
+    const { text, encoding } = entry.response.content;
+    // Recorded CORS grants name the recording origin; local servers change port between runs
+    const origin = await request.headerValue('origin');
+    await route.fulfill({
+      status: entry.response.status,
+      headers: Object.fromEntries(entry.response.headers
+        .filter((h) => !HOP_BY_HOP_HEADERS.has(h.name.toLowerCase()))
+        .map((h) => [h.name, origin && h.name.toLowerCase() === 'access-control-allow-origin' ? origin : h.value])),
+      body: Buffer.from(text, encoding === 'base64' ? 'base64' : 'utf8'),
+    });
+  }
+
+  // =========================================================================
+  // API CLIENT TRAFFIC
+  // =========================================================================
+
+  /**
+   * Record an API client call
+   * @param response - Live APIResponse; its body is read and stored
+   */
+  async recordApi(method: string, url: string, data: unknown, response: APIResponse, durationMs: number): Promise<void> {
+    this.record('api', method, url, data === undefined ? null : JSON.stringify(data), {
+      status: response.status(),
+      statusText: response.statusText(),
+      headers: response.headersArray(),
+      body: await response.body(),
+    }, durationMs);
+  }
+
+  /**
+   * Answer an API client call from the HAR
+   * @throws HarReplayMissError when no recorded entry matches (the miss is also listed in unmatched)
+   */
+  replayApi(method: string, url: string, data: unknown): APIResponse {
+    const request: ReplayRequest = { source: 'api', method, url, postData: data === undefined ? null : JSON.stringify(data), resourceType: 'api' };
+    const entry = this.match(request);
+    if (!entry) {
+      throw new HarReplayMissError(request, this.harPath);
+    }
+    return new HarReplayResponse(entry);
+  }
+
+  // =========================================================================
+  // PERSISTENCE
+  // =========================================================================
+
+  /**
+   * Write recorded entries (record mode; waits for in-flight browser captures)
+   * @returns Number of entries written
+   */
+  async save(): Promise<number> {
+    if (this.mode !== 'record') return 0;
+    // Written even without entries: replay then knows the test made no requests instead of missing its HAR
+    await Promise.all(this.pending);
+
+    const har: HarLog = {
+      log: {
+        version: '1.2',
+        creator: { name: 'demoblaze-har-store', version: '1.0' },
+        entries: this.entries,
+        ...(Object.keys(this.values).length > 0 ? { _values: this.values } : {}),
+      },
+    };
+    fs.mkdirSync(path.dirname(this.harPath), { recursive: true });
+    fs.writeFileSync(this.harPath, JSON.stringify(har, null, 2));
+    this.logger.debug(`Recorded ${this.entries.length} entries to ${this.harPath}`);
+    return this.entries.length;
+  }
+
+  private record(
+    source: HarSource,
+    method: string,
+    url: string,
+    postData: string | null,
+    response: RecordedResponse,
+    durationMs: number
+  ): void {
+    const parsed = new URL(url);
+    const mimeType = response.headers.find((h) => h.name.toLowerCase() === 'content-type')?.value ?? '';
+    const isText = mimeType === '' || TEXT_MIME.test(mimeType);
+    this.entries.push({
+      startedDateTime: new Date(Date.now() - durationMs).toISOString(),
+      time: Math.round(durationMs),
+      request: {
+        method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        headers: [],
+        queryString: [...parsed.searchParams].map(([name, value]) => ({ name, value })),
+        cookies: [],
+        headersSize: -1,
+        bodySize: postData ? Buffer.byteLength(postData) : 0,
+        ...(postData !== null ? { postData: { mimeType: 'application/json', text: postData } } : {}),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: response.headers,
+        cookies: [],
+        content: {
+          size: response.body.length,
+          mimeType,
+          text: response.body.toString(isText ? 'utf8' : 'base64'),
+          ...(isText ? {} : { encoding: 'base64' as const }),
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: response.body.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: Math.round(durationMs), receive: 0 },
+      _source: source,
+    });
+  }
+
+  /**
+   * Find the recorded entry for a request.
+   * Origins are ignored (local servers use random ports) and so are the per-run values in RANDOM_FIELDS;
+   * the rest of the body must match, so a request whose body changed is reported as unmatched.
+   */
+  private match(request: ReplayRequest): HarEntry | null {
+    const { source, method, url, postData } = request;
+    const target = new URL(url);
+    const body = normalizePostData(postData);
+    const sameRoute = this.entries.filter((entry) => {
+      const recorded = new URL(entry.request.url);
+      return entry._source === source && entry.request.method === method
+        && `${recorded.pathname}${recorded.search}` === `${target.pathname}${target.search}`;
+    });
+
+    const candidates = sameRoute.filter((entry) => normalizePostData(entry.request.postData?.text ?? null) === body);
+    const cursorKey = `${source} ${method} ${target.pathname}${target.search} ${body}`;
+    if (candidates.length === 0) {
+      this.unmatched.push(request);
+      const reason = sameRoute.length > 0 ? ' (recorded with a different body)' : '';
+      this.logger.warn(`Unmatched ${source} request in replay: ${method} ${url}${reason}`);
+      return null;
+    }
+
+    const index = this.cursors.get(cursorKey) ?? 0;
+    this.cursors.set(cursorKey, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)]!;
+  }
+}
+
+export default HarStore;
@@ -0,0 +1,181 @@
+import { Locator, TestInfo, expect } from '@playwright/test';
+import { DemoblazeLocators } from '../locators/DemoblazeLocators';
+import { TestLogger } from './TestLogger';
+import { ArtifactStore } from './ArtifactStore';
+
+/**
+ * LocatorAuditor - Health check for the locator classes behind the DemoblazeLocators facade
+ *
+ * For a given page state (home, product, cart, an open modal...) every declared locator of a group is
+ * counted and compared with the number of elements it should match: exactly one by default, so
+ * strict-mode violations (e.g. an unscoped getByLabel(/Name/i)) show up as "ambiguous". Name collisions
+ * between groups, which Object.assign in the facade resolves silently, are reported alongside.
+ */
+
+export type LocatorGroupName = 'home' | 'product' | 'cart' | 'auth';
+
+/** Exact element count, 'many' (at least one) or 'optional' (zero or one). */
+export type LocatorExpectation = number | 'many' | 'optional';
+export type LocatorExpectations = Partial<Record<string, LocatorExpectation>>;
+
+export type LocatorStatus = 'ok' | 'missing' | 'ambiguous' | 'unexpected-count';
+
+export interface LocatorHealth {
+  state: string;
+  group: LocatorGroupName;
+  name: string;
+  selector: string;
+  expected: LocatorExpectation;
+  count: number;
+  status: LocatorStatus;
+}
+
+export interface LocatorCollision {
+  name: string;
+  /** Groups declaring the name, in Object.assign order (the last one wins in the facade) */
+  groups: LocatorGroupName[];
+  selectors: string[];
+  /** All groups resolve the name to the same selector, so the overwrite is harmless */
+  identical: boolean;
+}
+
+export interface LocatorHealthReport {
+  checkedAt: string;
+  entries: LocatorHealth[];
+  collisions: LocatorCollision[];
+  summary: Record<LocatorStatus, number>;
+}
+
+export interface LocatorAuditOptions {
+  /** Per-name overrides of the default expectation of exactly one element */
+  expect?: LocatorExpectations;
+}
+
+export class LocatorAuditor {
+  /** Same order as the Object.assign in DemoblazeLocators */
+  static readonly GROUPS: readonly LocatorGroupName[] = ['home', 'product', 'cart', 'auth'];
+
+  private entries: LocatorHealth[] = [];
+  private logger = new TestLogger('LocatorAuditor');
+
+  constructor(private locators: DemoblazeLocators) {}
+
+  private static isLocator(value: unknown): value is Locator {
+    return typeof value === 'object' && value !== null
+      && typeof (value as Locator).count === 'function'
+      && typeof (value as Locator).first === 'function';
+  }
+
+  /**
+   * Declared locators of one group, keyed by property name
+   */
+  static locatorsOf(group: object): [string, Locator][] {
+    return Object.entries(group).filter((entry): entry is [string, Locator] => LocatorAuditor.isLocator(entry[1]));
+  }
+
+  private static statusOf(expected: LocatorExpectation, count: number): LocatorStatus {
+    if (expected === 'many') return count >= 1 ? 'ok' : 'missing';
+    if (expected === 'optional') return count <= 1 ? 'ok' : 'ambiguous';
+    if (count === expected) return 'ok';
+    if (count === 0) return 'missing';
+    return expected === 1 && count > 1 ? 'ambiguous' : 'unexpected-count';
+  }
+
+  /**
+   * Count every locator of a group in the current page state
+   * @param state - Label for the page state (e.g. 'cart: order modal open')
+   * @returns Health entries for this state (also kept for report())
+   */
+  async auditGroup(state: string, group: LocatorGroupName, options: LocatorAuditOptions = {}): Promise<LocatorHealth[]> {
+    const results: LocatorHealth[] = [];
+    for (const [name, locator] of LocatorAuditor.locatorsOf(this.locators[group])) {
+      const expected = options.expect?.[name] ?? 1;
+      const count = await locator.count();
+      results.push({ state, group, name, selector: locator.toString(), expected, count, status: LocatorAuditor.statusOf(expected, count) });
+    }
+
+    const unhealthy = results.filter((entry) => entry.status !== 'ok');
+    this.logger.info(`${state}: ${results.length - unhealthy.length}/${results.length} ${group} locator(s) healthy`);
+    unhealthy.forEach((entry) => this.logger.warn(`${state}: ${group}.${entry.name} ${entry.status} (expected ${entry.expected}, found ${entry.count})`));
+    this.entries.push(...results);
+    return results;
+  }
+
+  /**
+   * Names declared by more than one locator group (flattened into the facade with Object.assign)
+   */
+  static findCollisions(locators: DemoblazeLocators): LocatorCollision[] {
+    const declared = new Map<string, { group: LocatorGroupName; selector: string }[]>();
+    for (const group of LocatorAuditor.GROUPS) {
+      for (const [name, locator] of LocatorAuditor.locatorsOf(locators[group])) {
+        declared.set(name, [...(declared.get(name) ?? []), { group, selector: locator.toString() }]);
+      }
+    }
+
+    return [...declared.entries()]
+      .filter(([, owners]) => owners.length > 1)
+      .map(([name, owners]) => ({
+        name,
+        groups: owners.map((owner) => owner.group),
+        selectors: owners.map((owner) => owner.selector),
+        identical: new Set(owners.map((owner) => owner.selector)).size === 1,
+      }));
+  }
+
+  report(): LocatorHealthReport {
+    const summary: Record<LocatorStatus, number> = { 'ok': 0, 'missing': 0, 'ambiguous': 0, 'unexpected-count': 0 };
+    this.entries.forEach((entry) => summary[entry.status]++);
+    return {
+      checkedAt: new Date().toISOString(),
+      entries: [...this.entries],
+      collisions: LocatorAuditor.findCollisions(this.locators),
+      summary,
+    };
+  }
+
+  // =========================================================================
+  // REPORTING
+  // =========================================================================
+
+  /**
+   * Assert every audited locator matched its expected count and no colliding names resolve differently
+   */
+  static expectHealthy(report: LocatorHealthReport): void {
+    const unhealthy = report.entries.filter((entry) => entry.status !== 'ok');
+    const conflicts = report.collisions.filter((collision) => !collision.identical);
+    expect({ unhealthy, conflicts }, LocatorAuditor.toMarkdown(report)).toEqual({ unhealthy: [], conflicts: [] });
+  }
+
+  static toMarkdown(report: LocatorHealthReport): string {
+    const { summary } = report;
+    const lines = [
+      `Locator health: ${summary.ok} ok, ${summary.missing} missing, ${summary.ambiguous} ambiguous, ${summary['unexpected-count']} unexpected count`,
+      '',
+      '| State | Locator | Selector | Expected | Found | Status |',
+      '|---|---|---|---|---|---|',
+      ...report.entries.map((entry) =>
+        `| ${entry.state} | ${entry.group}.${entry.name} | \`${entry.selector}\` | ${entry.expected} | ${entry.count} | ${entry.status} |`
+      ),
+    ];
+    if (report.collisions.length > 0) {
+      lines.push(
+        '',
+        '| Facade name | Groups (last wins) | Selectors | Identical |',
+        '|---|---|---|---|',
+        ...report.collisions.map((collision) =>
+          `| ${collision.name} | ${collision.groups.join(' > ')} | ${collision.selectors.map((selector) => `\`${selector}\``).join('<br>')} | ${collision.identical ? 'yes' : 'NO'} |`
+        )
+      );
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Attach the health report to the test as JSON and a Markdown table
+   */
+  static async attach(testInfo: TestInfo, report: LocatorHealthReport, attachmentName = 'locator-health'): Promise<void> {
+    await ArtifactStore.for(testInfo).attachReport(attachmentName, report, LocatorAuditor.toMarkdown(report));
+  }
+}
+
+export default LocatorAuditor;
@@ -0,0 +1,85 @@
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocatorFallbackSummary, LocatorTelemetry } from './LocatorTelemetry';
+import { TestLogger } from './TestLogger';
+
+/**
+ * LocatorDebtReporter - Run-level accessibility-debt report built from locator-fallbacks.json attachments
+ *
+ * Every test that acted on withFallback() locators attaches a per-locator summary (see LocatorTelemetry).
+ * This reporter merges them across the run and writes locator-debt.json and locator-debt.md: locators
+ * whose CSS fallback resolved are accessibility debt, listed with the tests that hit the fallback.
+ */
+
+export interface LocatorDebtEntry extends LocatorFallbackSummary {
+  /** Tests in which the accessible primary did not resolve */
+  fallbackTests: string[];
+}
+
+export interface LocatorDebtReport {
+  generatedAt: string;
+  debt: LocatorDebtEntry[];
+  healthy: LocatorDebtEntry[];
+}
+
+export interface LocatorDebtReporterOptions {
+  outputDir?: string;
+}
+
+export default class LocatorDebtReporter implements Reporter {
+  private entries = new Map<string, LocatorDebtEntry>();
+  private outputDir: string;
+  private logger = new TestLogger('LocatorDebtReporter');
+
+  constructor(options: LocatorDebtReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? 'a11y-results';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find((candidate) => candidate.name === LocatorTelemetry.ATTACHMENT_NAME);
+    if (!attachment?.body) return;
+
+    const summaries = JSON.parse(attachment.body.toString('utf-8')) as LocatorFallbackSummary[];
+    for (const summary of summaries) {
+      const entry = this.entries.get(summary.locator) ?? { ...summary, actions: 0, primaryHits: 0, fallbackHits: 0, misses: 0, fallbackTests: [] };
+      entry.actions += summary.actions;
+      entry.primaryHits += summary.primaryHits;
+      entry.fallbackHits += summary.fallbackHits;
+      entry.misses += summary.misses;
+      if (summary.fallbackHits > 0) entry.fallbackTests.push(test.titlePath().slice(1).join(' > '));
+      this.entries.set(summary.locator, entry);
+    }
+  }
+
+  onEnd(): void {
+    if (this.entries.size === 0) return;
+
+    const entries = [...this.entries.values()].sort((a, b) => a.locator.localeCompare(b.locator));
+    const report: LocatorDebtReport = {
+      generatedAt: new Date().toISOString(),
+      debt: entries.filter((entry) => entry.fallbackHits > 0),
+      healthy: entries.filter((entry) => entry.fallbackHits === 0),
+    };
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'locator-debt.json'), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'locator-debt.md'), LocatorDebtReporter.toMarkdown(report));
+    this.logger.info(`Accessibility debt: ${report.debt.length} of ${entries.length} fallback locator(s) resolved through CSS`);
+  }
+
+  static toMarkdown(report: LocatorDebtReport): string {
+    const row = (entry: LocatorDebtEntry) =>
+      `| ${entry.locator} | \`${entry.primary}\` | \`${entry.fallback}\` | ${entry.primaryHits} | ${entry.fallbackHits} | ${entry.misses} |`;
+    return [
+      `Accessibility debt: ${report.debt.length} locator(s) resolved through their CSS fallback`,
+      '',
+      '| Locator | Accessible primary | CSS fallback | Primary | Fallback | Missed |',
+      '|---|---|---|---|---|---|',
+      ...report.debt.map(row),
+      ...report.healthy.map(row),
+      ...(report.debt.length > 0 ? ['', '## Tests hitting fallbacks', ''] : []),
+      ...report.debt.map((entry) => `- ${entry.locator}: ${entry.fallbackTests.join('; ')}`),
+    ].join('\n');
+  }
+}
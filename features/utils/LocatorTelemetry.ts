@@ -0,0 +1,175 @@
+import { Locator, Page, TestInfo, expect } from '@playwright/test';
+
+/**
+ * LocatorTelemetry - Records which branch of an accessible-first locator actually resolved
+ *
+ * Locator classes declare `withFallback(accessible, css)` instead of `accessible.or(css)`. The
+ * DemoblazeLocators facade instruments every group when telemetry is enabled (LOCATOR_TELEMETRY=true or the
+ * locatorTelemetry option), so when a test acts on such a locator (click, fill, textContent, ...) the
+ * primary and the fallback are counted once the element is actionable and the winning branch is recorded.
+ * Locators that only resolve through their CSS fallback are accessibility debt; the per-test summary is
+ * attached as locator-fallbacks.json and aggregated across the run by LocatorDebtReporter.
+ */
+
+export type LocatorBranch = 'primary' | 'fallback' | 'none';
+
+export interface LocatorResolution {
+  /** Facade path, e.g. 'cart.orderName' */
+  locator: string;
+  action: string;
+  resolvedBy: LocatorBranch;
+  url: string;
+  timestamp: string;
+}
+
+export interface LocatorFallbackSummary {
+  locator: string;
+  primary: string;
+  fallback: string;
+  actions: number;
+  primaryHits: number;
+  fallbackHits: number;
+  misses: number;
+}
+
+interface FallbackParts {
+  primary: Locator;
+  fallback: Locator;
+}
+
+const FALLBACK_PARTS = Symbol('fallbackParts');
+
+/** The action's own timeout option, so the pre-action wait gives up when the action would */
+function timeoutOf(args: unknown[]): { timeout?: number } {
+  const options = args.find((arg): arg is { timeout: number } =>
+    typeof arg === 'object' && arg !== null && typeof (arg as { timeout?: unknown }).timeout === 'number');
+  return options ? { timeout: options.timeout } : {};
+}
+
+/**
+ * Accessible locator with a CSS fallback: behaves like primary.or(fallback) and remembers both parts
+ */
+export function withFallback(primary: Locator, fallback: Locator): Locator {
+  const combined = primary.or(fallback);
+  Object.defineProperty(combined, FALLBACK_PARTS, { value: { primary, fallback } satisfies FallbackParts });
+  return combined;
+}
+
+export class LocatorTelemetry {
+  static readonly ATTACHMENT_NAME = 'locator-fallbacks.json';
+
+  /** Locator methods that resolve elements; probes such as count() and isVisible() are not recorded */
+  private static readonly RESOLVING_METHODS = new Set([
+    'click', 'dblclick', 'fill', 'press', 'pressSequentially', 'type', 'check', 'uncheck', 'setChecked',
+    'selectOption', 'hover', 'focus', 'tap', 'textContent', 'innerText', 'inputValue', 'getAttribute', 'waitFor',
+  ]);
+  /** Resolving methods that also work on hidden elements, so they only wait for the element to be attached */
+  private static readonly READ_METHODS = new Set(['textContent', 'innerText', 'inputValue', 'getAttribute']);
+
+  readonly resolutions: LocatorResolution[] = [];
+  private parts = new Map<string, FallbackParts>();
+
+  /**
+   * @param enabled - Off by default: recording waits for and counts both branches on every action
+   */
+  constructor(private page: Page, readonly enabled: boolean = false) {}
+
+  /**
+   * Replace every withFallback() locator of a group with a recording proxy (no-op when disabled)
+   * @param groupName - Facade group name used as prefix ('home', 'cart', ...)
+   * @param group - Locator class instance (mutated in place)
+   */
+  instrument(groupName: string, group: object): void {
+    if (!this.enabled) return;
+    for (const [name, value] of Object.entries(group)) {
+      const parts = (value as { [FALLBACK_PARTS]?: FallbackParts } | null)?.[FALLBACK_PARTS];
+      if (!parts) continue;
+      const path = `${groupName}.${name}`;
+      this.parts.set(path, parts);
+      Object.defineProperty(group, name, { value: this.wrap(path, value as Locator, parts), enumerable: true });
+    }
+  }
+
+  private wrap(path: string, locator: Locator, parts: FallbackParts): Locator {
+    const telemetry = this;
+    return new Proxy(locator, {
+      get(target, property) {
+        const value = Reflect.get(target, property, target);
+        // expect() recognises locators by constructor name, which bind() would turn into 'bound Locator'
+        if (typeof value !== 'function' || property === 'constructor') return value;
+        if (typeof property === 'string' && LocatorTelemetry.RESOLVING_METHODS.has(property)) {
+          return async (...args: unknown[]) => {
+            if (property === 'waitFor') {
+              const result = await value.apply(target, args);
+              const state = (args[0] as { state?: string } | undefined)?.state;
+              if (state !== 'detached' && state !== 'hidden') await telemetry.record(path, property, parts);
+              return result;
+            }
+            // Counting before the action's auto-wait would see a page that is still rendering
+            await target.waitFor({ state: LocatorTelemetry.READ_METHODS.has(property) ? 'attached' : 'visible', ...timeoutOf(args) });
+            await telemetry.record(path, property, parts);
+            return await value.apply(target, args);
+          };
+        }
+        return value.bind(target);
+      },
+    });
+  }
+
+  private async record(path: string, action: string, parts: FallbackParts): Promise<void> {
+    const [primaryCount, fallbackCount] = await Promise.all([
+      parts.primary.count().catch(() => 0),
+      parts.fallback.count().catch(() => 0),
+    ]);
+    const resolvedBy: LocatorBranch = primaryCount > 0 ? 'primary' : fallbackCount > 0 ? 'fallback' : 'none';
+    this.resolutions.push({ locator: path, action, resolvedBy, url: this.page.url(), timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Per-locator counts of which branch resolved
+   */
+  summary(): LocatorFallbackSummary[] {
+    const byLocator = new Map<string, LocatorFallbackSummary>();
+    for (const resolution of this.resolutions) {
+      const parts = this.parts.get(resolution.locator)!;
+      const entry = byLocator.get(resolution.locator) ?? {
+        locator: resolution.locator,
+        primary: parts.primary.toString(),
+        fallback: parts.fallback.toString(),
+        actions: 0,
+        primaryHits: 0,
+        fallbackHits: 0,
+        misses: 0,
+      };
+      entry.actions++;
+      if (resolution.resolvedBy === 'primary') entry.primaryHits++;
+      else if (resolution.resolvedBy === 'fallback') entry.fallbackHits++;
+      else entry.misses++;
+      byLocator.set(resolution.locator, entry);
+    }
+    return [...byLocator.values()];
+  }
+
+  /**
+   * Locators whose accessible primary did not resolve at least once (they fell back to CSS)
+   */
+  fallbacks(): LocatorFallbackSummary[] {
+    return this.summary().filter((entry) => entry.fallbackHits > 0);
+  }
+
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.resolutions.length === 0) return;
+
+    await testInfo.attach(LocatorTelemetry.ATTACHMENT_NAME, {
+      body: JSON.stringify(this.summary(), null, 2),
+      contentType: 'application/json'
+    });
+  }
+
+  expectNoFallbacks(): void {
+    const regressed = this.fallbacks().map((entry) => `${entry.locator}: ${entry.primary} -> ${entry.fallback}`);
+    expect.soft(regressed, 'Accessible locators resolved only through their CSS fallback').toEqual([]);
+  }
+}
+
+export default LocatorTelemetry;
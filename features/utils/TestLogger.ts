@@ -1,36 +1,147 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
 /**
  * TestLogger - Structured logging utility for page objects
- * 
+ *
  * Provides consistent logging across all page objects with configurable verbosity.
- * Supports info, debug, warn, and error levels with visual indicators.
+ * Levels (LOG_LEVEL / the logLevel option) filter entries; LOG_FORMAT=json prints one JSON object per line
+ * instead of the emoji-decorated text. While a test runs, every entry carries its correlation context
+ * (test id, worker, project, the logStep() step it runs in) and is buffered for the test-log.jsonl attachment.
  */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+
+export interface LogContext {
+  testId?: string;
+  test?: string;
+  worker?: number;
+  project?: string;
+  step?: string;
+}
+
+export interface LogEntry extends LogContext {
+  timestamp: string;
+  level: LogLevel;
+  /** Logger name: page object class, utility or test title */
+  source: string;
+  message: string;
+  /** Set for success() and step() entries (both logged at info level) */
+  kind?: 'success' | 'step';
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
 export class TestLogger {
+  static level: LogLevel = TestLogger.resolveLevel(process.env.LOG_LEVEL);
+  static format: LogFormat = process.env.LOG_FORMAT === 'json' ? 'json' : 'text';
+
+  private static context: LogContext = {};
+  private static buffer: LogEntry[] | null = null;
+  private static steps = new AsyncLocalStorage<string>();
+
   constructor(private className: string) {}
 
+  /**
+   * LOG_LEVEL wins; DEBUG/VERBOSE still switch on debug output as before
+   */
+  static resolveLevel(value: string | undefined): LogLevel {
+    if (value && value in LEVEL_ORDER) return value as LogLevel;
+    return process.env.DEBUG || process.env.VERBOSE ? 'debug' : 'info';
+  }
+
+  static configure(options: { level?: LogLevel; format?: LogFormat }): void {
+    if (options.level) TestLogger.level = options.level;
+    if (options.format) TestLogger.format = options.format;
+  }
+
+  // =========================================================================
+  // TEST CORRELATION
+  // =========================================================================
+
+  /**
+   * Start buffering entries for a test (one test at a time per worker process)
+   */
+  static beginTest(context: LogContext): void {
+    TestLogger.context = { ...context };
+    TestLogger.buffer = [];
+  }
+
+  /**
+   * Stop buffering and return the test's entries
+   */
+  static endTest(): LogEntry[] {
+    const entries = TestLogger.buffer ?? [];
+    TestLogger.buffer = null;
+    TestLogger.context = {};
+    return entries;
+  }
+
+  /**
+   * Entries buffered so far for the running test
+   */
+  static get entries(): readonly LogEntry[] {
+    return [...(TestLogger.buffer ?? [])];
+  }
+
+  /**
+   * Run a body with `step` as the correlation step of every entry logged inside it
+   */
+  static withStep<T>(step: string, body: () => T): T {
+    return TestLogger.steps.run(step, body);
+  }
+
+  static toJsonLines(entries: readonly LogEntry[]): string {
+    return entries.map((entry) => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+  }
+
+  // =========================================================================
+  // LOGGING
+  // =========================================================================
+
   info(message: string): void {
-    console.log(`[${this.className}] ℹ️  ${message}`);
+    this.log('info', 'ℹ️ ', message);
   }
 
   debug(message: string): void {
-    if (process.env.DEBUG || process.env.VERBOSE) {
-      console.log(`[${this.className}] 🔍 ${message}`);
-    }
+    this.log('debug', '🔍', message);
   }
 
   warn(message: string): void {
-    console.warn(`[${this.className}] ⚠️  ${message}`);
+    this.log('warn', '⚠️ ', message);
   }
 
   error(message: string): void {
-    console.error(`[${this.className}] ❌ ${message}`);
+    this.log('error', '❌', message);
   }
 
   success(message: string): void {
-    console.log(`[${this.className}] ✅ ${message}`);
+    this.log('info', '✅', message, 'success');
   }
 
   step(message: string): void {
-    console.log(`[${this.className}] 📍 ${message}`);
+    this.log('info', '📍', message, 'step');
+  }
+
+  private log(level: LogLevel, icon: string, message: string, kind?: LogEntry['kind']): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[TestLogger.level]) return;
+
+    const step = TestLogger.steps.getStore();
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      source: this.className,
+      message,
+      ...TestLogger.context,
+      ...(step !== undefined ? { step } : {}),
+      ...(kind ? { kind } : {}),
+    };
+    TestLogger.buffer?.push(entry);
+
+    const line = TestLogger.format === 'json' ? JSON.stringify(entry) : `[${this.className}] ${icon} ${message}`;
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
   }
 }
 
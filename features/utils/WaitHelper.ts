@@ -1,3 +1,53 @@
+import { TestLogger } from './TestLogger';
+
+export interface WaitOptions {
+  /** Label used in logs and timeout errors, e.g. 'cart total settles' */
+  description?: string;
+  /** Stop waiting early (rejects with the signal's reason) */
+  signal?: AbortSignal;
+}
+
+export interface RetryOptions extends WaitOptions {
+  /** Delay before the first retry; doubled (backoffFactor) for every further one */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  /** Randomise each delay by +/- this share (0.2 = 20%) so parallel workers do not retry in lockstep */
+  jitterRatio?: number;
+  /** Retry only errors this returns true for; anything else is rethrown straight away */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+const MAX_VALUE_LENGTH = 120;
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  let serialised: string;
+  try {
+    serialised = JSON.stringify(value) ?? String(value);
+  } catch {
+    serialised = String(value);
+  }
+  return serialised.length > MAX_VALUE_LENGTH ? `${serialised.substring(0, MAX_VALUE_LENGTH)}...` : serialised;
+}
+
+/**
+ * Thrown when a polled condition is still not met at its deadline.
+ */
+export class WaitTimeoutError extends Error {
+  constructor(
+    readonly description: string,
+    readonly timeoutMs: number,
+    readonly attempts: number,
+    readonly elapsedMs: number,
+    readonly lastValue: unknown
+  ) {
+    super(`${description} not met within ${timeoutMs}ms (${attempts} attempt(s), ${elapsedMs}ms elapsed, last value: ${describeValue(lastValue)})`);
+    this.name = 'WaitTimeoutError';
+  }
+}
+
 export class WaitHelper {
   static readonly DEFAULT_TIMEOUT_MS = 5000;
   static readonly DEFAULT_POLL_INTERVAL_MS = 100;
@@ -5,38 +55,112 @@ export class WaitHelper {
   static readonly LONG_TIMEOUT_MS = 10000;
   static readonly SLOW_POLL_INTERVAL_MS = 150;
   static readonly RETRY_DELAY_MS = 500;
+  static readonly DEFAULT_BACKOFF_FACTOR = 2;
+  static readonly DEFAULT_JITTER_RATIO = 0.2;
+
+  private static logger = new TestLogger('WaitHelper');
 
   /**
    * Poll a condition until it succeeds or times out.
+   * @throws WaitTimeoutError with attempt count and elapsed time; the signal's reason when aborted
    */
   static async waitForCondition(
     condition: () => Promise<boolean>,
     timeoutMs: number = WaitHelper.DEFAULT_TIMEOUT_MS,
-    pollIntervalMs: number = WaitHelper.DEFAULT_POLL_INTERVAL_MS
+    pollIntervalMs: number = WaitHelper.DEFAULT_POLL_INTERVAL_MS,
+    options: WaitOptions = {}
   ): Promise<void> {
+    await WaitHelper.waitForValue(condition, (met) => met, timeoutMs, pollIntervalMs, options);
+  }
+
+  /**
+   * Poll a probe until its value satisfies the predicate.
+   * @returns The first value that satisfied the predicate
+   * @throws WaitTimeoutError carrying the last observed value; the signal's reason when aborted
+   */
+  static async waitForValue<T>(
+    probe: () => Promise<T>,
+    predicate: (value: T) => boolean,
+    timeoutMs: number = WaitHelper.DEFAULT_TIMEOUT_MS,
+    pollIntervalMs: number = WaitHelper.DEFAULT_POLL_INTERVAL_MS,
+    options: WaitOptions = {}
+  ): Promise<T> {
+    const description = options.description ?? 'Condition';
     const start = Date.now();
-    while (Date.now() - start < timeoutMs) {
-      if (await condition()) return;
-      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    let attempts = 0;
+    let lastValue: T | undefined;
+    while (true) {
+      options.signal?.throwIfAborted();
+      attempts++;
+      lastValue = await probe();
+      if (predicate(lastValue)) return lastValue;
+
+      const elapsedMs = Date.now() - start;
+      if (elapsedMs >= timeoutMs) {
+        const error = new WaitTimeoutError(description, timeoutMs, attempts, elapsedMs, lastValue);
+        WaitHelper.logger.warn(error.message);
+        throw error;
+      }
+      await WaitHelper.sleep(Math.min(pollIntervalMs, timeoutMs - elapsedMs), options.signal);
     }
-    throw new Error(`Condition not met within ${timeoutMs}ms`);
   }
 
   /**
-   * Retry an async operation up to maxRetries times.
+   * Retry an async operation up to maxRetries times, backing off exponentially (with jitter) between attempts.
+   * @throws The last error once attempts are exhausted, or straight away when retryOn rejects it
    */
   static async retryOperation<T>(
     operation: () => Promise<T>,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    options: RetryOptions = {}
   ): Promise<T> {
-    let lastError: unknown;
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
+    const description = options.description ?? 'Operation';
+    for (let attempt = 1; ; attempt++) {
+      options.signal?.throwIfAborted();
       try {
         return await operation();
       } catch (error) {
-        lastError = error;
+        const retryable = options.retryOn?.(error, attempt) ?? true;
+        if (!retryable || attempt >= maxRetries) {
+          WaitHelper.logger.error(`${description} failed after ${attempt} attempt(s): ${describeValue(error)}`);
+          throw error;
+        }
+        const delayMs = WaitHelper.backoffDelay(attempt, options);
+        WaitHelper.logger.warn(`${description}: attempt ${attempt}/${maxRetries} failed (${describeValue(error)}), retrying in ${delayMs}ms`);
+        await WaitHelper.sleep(delayMs, options.signal);
       }
     }
-    throw lastError;
+  }
+
+  /**
+   * Delay before retry number `attempt` (1-based): initialDelay * factor^(attempt-1), capped, +/- jitter
+   */
+  static backoffDelay(attempt: number, options: RetryOptions = {}): number {
+    const initialDelayMs = options.initialDelayMs ?? WaitHelper.RETRY_DELAY_MS;
+    const maxDelayMs = options.maxDelayMs ?? WaitHelper.DEFAULT_TIMEOUT_MS;
+    const factor = options.backoffFactor ?? WaitHelper.DEFAULT_BACKOFF_FACTOR;
+    const jitterRatio = options.jitterRatio ?? WaitHelper.DEFAULT_JITTER_RATIO;
+
+    const delayMs = Math.min(maxDelayMs, initialDelayMs * factor ** (attempt - 1));
+    const jitter = delayMs * jitterRatio * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delayMs + jitter));
+  }
+
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
@@ -3,5 +3,14 @@
  * Stateless helper functions and specialized services
  */
 export { AccessibilityAudit } from './AccessibilityAudit';
-export { WaitHelper } from './WaitHelper';
+export { WaitHelper, WaitTimeoutError } from './WaitHelper';
+export type { WaitOptions, RetryOptions } from './WaitHelper';
 export { TestLogger } from './TestLogger';
+export type { LogLevel, LogFormat, LogContext, LogEntry } from './TestLogger';
+export { CartSeeder } from './CartSeeder';
+export { HarStore } from './HarStore';
+export { CatalogConsistencyChecker } from './CatalogConsistency';
+export { DialogManager } from './DialogManager';
+export { LocatorAuditor } from './LocatorAuditor';
+export { LocatorTelemetry, withFallback } from './LocatorTelemetry';
+export { ArtifactStore } from './ArtifactStore';
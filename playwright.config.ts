@@ -1,4 +1,6 @@
 import { defineConfig, devices } from '@playwright/test';
+import type { DemoblazeOptions } from './features/fixtures';
+import { TestLogger } from './features/utils/TestLogger';
 
 /**
  * Playwright Configuration - Demoblaze Automation
@@ -10,7 +12,9 @@ import { defineConfig, devices } from '@playwright/test';
  */
 
 // Configuration with sensible defaults - override via environment variables in CI/CD
+// BASE_URL=local serves the offline replica; the baseURL fixture then points at its random port
 const BASE_URL = process.env.BASE_URL || 'https://www.demoblaze.com/index.html';
+const IS_LOCAL_STOREFRONT = BASE_URL === 'local';
 // Support both PLAYWRIGHT_* (pipeline) and custom env vars (local)
 const DEFAULT_TIMEOUT = Number(process.env.PLAYWRIGHT_TEST_TIMEOUT || process.env.DEFAULT_TIMEOUT || 60000);
 const EXPECT_TIMEOUT = Number(process.env.PLAYWRIGHT_EXPECT_TIMEOUT || process.env.EXPECT_TIMEOUT || 10000);
@@ -25,13 +29,27 @@ const SCREENSHOT_MODE = process.env.SCREENSHOT_MODE || 'only-on-failure';
 const VIDEO_MODE = process.env.VIDEO_MODE || 'on';
 const VIEWPORT_WIDTH = Number(process.env.VIEWPORT_WIDTH || 1920);
 const VIEWPORT_HEIGHT = Number(process.env.VIEWPORT_HEIGHT || 1080);
+// Visual regression: baselines live per project and viewport; UPDATE_BASELINES=true rewrites them,
+// locally a missing one is written on first run, in CI it fails the test without touching the tree
+const VISUAL_MAX_DIFF_RATIO = Number(process.env.VISUAL_MAX_DIFF_RATIO || 0.01);
+const UPDATE_BASELINES = process.env.UPDATE_BASELINES === 'true';
+// TestLogger: LOG_LEVEL=debug|info|warn|error (DEBUG/VERBOSE imply debug), LOG_FORMAT=json for JSON lines
+const LOG_LEVEL = TestLogger.resolveLevel(process.env.LOG_LEVEL);
+const LOG_FORMAT = process.env.LOG_FORMAT === 'json' ? 'json' : 'text';
 
-export default defineConfig({
+export default defineConfig<DemoblazeOptions>({
   testDir: './features',
   timeout: DEFAULT_TIMEOUT,
   expect: {
-    timeout: EXPECT_TIMEOUT
+    timeout: EXPECT_TIMEOUT,
+    toHaveScreenshot: {
+      maxDiffPixelRatio: VISUAL_MAX_DIFF_RATIO,
+      animations: 'disabled',
+      caret: 'hide'
+    }
   },
+  snapshotPathTemplate: '{testDir}/visual-baselines/{projectName}/{arg}{ext}',
+  updateSnapshots: UPDATE_BASELINES ? 'all' : process.env.CI ? 'none' : 'missing',
   fullyParallel: true,
   retries: RETRIES,
   workers: WORKERS,
@@ -39,16 +57,20 @@ export default defineConfig({
     ['html', { outputFolder: REPORT_FOLDER }],
     ['list'],
     ['json', { outputFile: 'test-results/results.json' }],
-    ['junit', { outputFile: 'test-results/results.xml' }]
+    ['junit', { outputFile: 'test-results/results.xml' }],
+    ['./features/utils/LocatorDebtReporter.ts', { outputDir: 'a11y-results' }],
+    ['./features/utils/ArtifactIndexReporter.ts', { outputFile: 'test-results/artifacts-index.json' }]
   ],
   use: {
-    baseURL: BASE_URL,
+    ...(IS_LOCAL_STOREFRONT ? {} : { baseURL: BASE_URL }),
     headless: HEADLESS,
     trace: TRACE_MODE as 'on' | 'off' | 'retain-on-failure' | 'on-first-retry',
     screenshot: SCREENSHOT_MODE as 'on' | 'off' | 'only-on-failure',
     video: VIDEO_MODE as 'on' | 'off' | 'retain-on-failure' | 'on-first-retry',
     actionTimeout: ACTION_TIMEOUT,
     navigationTimeout: NAVIGATION_TIMEOUT,
+    logLevel: LOG_LEVEL,
+    logFormat: LOG_FORMAT,
   },
   projects: [
     // API Layer - No browser needed (HTTP-only tests)
@@ -56,9 +78,14 @@ export default defineConfig({
       name: 'api',
       testMatch: '**/tests/api/**/*.spec.ts',
       use: {
-        // API tests use page.request directly - no browser context needed
+        // API tests use the worker-scoped apiRequest fixture - no browser is launched
       },
     },
+    // Unit Layer - No browser needed (pure utility logic, runs once instead of once per browser)
+    {
+      name: 'unit',
+      testMatch: '**/tests/unit/**/*.spec.ts',
+    },
     // E2E-UI Layer - Chromium (primary browser)
     {
       name: 'chromium',